@@ -10,7 +10,14 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { BloodGroup, RequestStatus, DonationStatus } from "@prisma/client";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { createUnitFromDonation, shelfLifeEnd } from "@/lib/blood-units";
+import {
+  BloodComponent,
+  BloodGroup,
+  RequestStatus,
+  DonationStatus,
+} from "@prisma/client";
 import bcrypt from "bcryptjs";
 
 // ============================================
@@ -295,31 +302,13 @@ export async function completeDonation(
           isEligible,
           unitSerialNumber,
           collectedBy,
-          expiryDate: new Date(Date.now() + 35 * 24 * 60 * 60 * 1000), // 35 days
+          expiryDate: shelfLifeEnd(BloodComponent.WHOLE_BLOOD, new Date()),
         },
       });
 
-      // Update inventory if donation was successful
+      // Put the collected unit on the shelf; the inventory total follows it
       if (isEligible) {
-        await tx.bloodInventory.upsert({
-          where: {
-            bloodBankId_bloodGroup: {
-              bloodBankId: donation.bloodBankId,
-              bloodGroup: donation.bloodGroup,
-            },
-          },
-          update: {
-            quantity: { increment: 1 },
-            lastUpdated: new Date(),
-          },
-          create: {
-            bloodBankId: donation.bloodBankId,
-            bloodGroup: donation.bloodGroup,
-            quantity: 1,
-            minimumQuantity: 10,
-            maximumQuantity: 100,
-          },
-        });
+        await createUnitFromDonation(tx, updatedDonation.id);
 
         // Update donor's last donation date
         await tx.user.update({
@@ -339,6 +328,7 @@ export async function completeDonation(
       message: "Donation completed successfully",
     });
   } catch (error) {
+    if (error instanceof ApiError) return apiErrorResponse(error);
     console.error("Error completing donation:", error);
     return NextResponse.json(
       { success: false, error: "Failed to complete donation" },
@@ -507,9 +497,10 @@ export async function approveBloodRequest(
     // Check if blood bank has sufficient inventory
     const inventory = await prisma.bloodInventory.findUnique({
       where: {
-        bloodBankId_bloodGroup: {
+        bloodBankId_bloodGroup_component: {
           bloodBankId,
           bloodGroup: bloodRequest.bloodGroup,
+          component: bloodRequest.component,
         },
       },
     });
@@ -0,0 +1,4 @@
+-- AddCheckConstraint
+-- Prisma cannot express CHECK constraints in schema.prisma, so stock is
+-- guarded here as a last line of defence against negative inventory.
+ALTER TABLE "blood_inventory" ADD CONSTRAINT "blood_inventory_quantity_check" CHECK ("quantity" >= 0);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "blood_requests" ADD COLUMN     "issuedBloodGroup" "BloodGroup";
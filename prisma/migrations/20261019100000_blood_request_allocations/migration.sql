@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "blood_requests" ADD COLUMN     "quantityFulfilled" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "blood_request_allocations" (
+    "id" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "bloodGroup" "BloodGroup" NOT NULL,
+    "allocatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bloodRequestId" TEXT NOT NULL,
+    "bloodBankId" TEXT NOT NULL,
+
+    CONSTRAINT "blood_request_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "blood_request_allocations_bloodRequestId_idx" ON "blood_request_allocations"("bloodRequestId");
+
+-- CreateIndex
+CREATE INDEX "blood_request_allocations_bloodBankId_idx" ON "blood_request_allocations"("bloodBankId");
+
+-- AddForeignKey
+ALTER TABLE "blood_request_allocations" ADD CONSTRAINT "blood_request_allocations_bloodRequestId_fkey" FOREIGN KEY ("bloodRequestId") REFERENCES "blood_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "blood_request_allocations" ADD CONSTRAINT "blood_request_allocations_bloodBankId_fkey" FOREIGN KEY ("bloodBankId") REFERENCES "blood_banks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: requests fulfilled from a single bank become one allocation,
+-- carrying over the substitute group recorded in "issuedBloodGroup"
+INSERT INTO "blood_request_allocations" ("id", "quantity", "bloodGroup", "createdAt", "bloodRequestId", "bloodBankId")
+SELECT gen_random_uuid()::text, "quantityNeeded", COALESCE("issuedBloodGroup", "bloodGroup"), COALESCE("fulfilledAt", "updatedAt"), "id", "bloodBankId"
+FROM "blood_requests"
+WHERE "status" = 'FULFILLED' AND "bloodBankId" IS NOT NULL;
+
+UPDATE "blood_requests" SET "quantityFulfilled" = "quantityNeeded" WHERE "status" = 'FULFILLED';
+
+-- AlterTable
+ALTER TABLE "blood_requests" DROP COLUMN "issuedBloodGroup";
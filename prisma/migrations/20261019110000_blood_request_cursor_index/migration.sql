@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "blood_requests_createdAt_id_idx" ON "blood_requests"("createdAt", "id");
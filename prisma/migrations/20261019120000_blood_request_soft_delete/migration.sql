@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "blood_requests" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedBy" TEXT;
+
+-- CreateIndex
+CREATE INDEX "blood_requests_deletedAt_idx" ON "blood_requests"("deletedAt");
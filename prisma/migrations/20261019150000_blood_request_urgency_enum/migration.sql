@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "Urgency" AS ENUM ('CRITICAL', 'URGENT', 'NORMAL');
+
+-- NormaliseData
+-- urgency used to be free text, so fix case, whitespace and typos before
+-- the cast. Misspellings keep the level they were clearly meant as
+-- ("critcal" -> CRITICAL); anything unrecognisable becomes NORMAL.
+UPDATE "blood_requests"
+SET "urgency" = CASE
+    WHEN UPPER(TRIM("urgency")) LIKE 'CRI%' THEN 'CRITICAL'
+    WHEN UPPER(TRIM("urgency")) LIKE 'URG%' THEN 'URGENT'
+    ELSE 'NORMAL'
+  END
+WHERE "urgency" NOT IN ('CRITICAL', 'URGENT', 'NORMAL');
+
+-- AlterTable
+ALTER TABLE "blood_requests" ALTER COLUMN "urgency" DROP DEFAULT;
+ALTER TABLE "blood_requests" ALTER COLUMN "urgency" TYPE "Urgency" USING ("urgency"::"Urgency");
+ALTER TABLE "blood_requests" ALTER COLUMN "urgency" SET DEFAULT 'NORMAL';
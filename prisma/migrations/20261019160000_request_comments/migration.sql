@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "request_comments" (
+    "id" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "internal" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bloodRequestId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+
+    CONSTRAINT "request_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "request_comments_bloodRequestId_createdAt_idx" ON "request_comments"("bloodRequestId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "request_comments_authorId_idx" ON "request_comments"("authorId");
+
+-- AddForeignKey
+ALTER TABLE "request_comments" ADD CONSTRAINT "request_comments_bloodRequestId_fkey" FOREIGN KEY ("bloodRequestId") REFERENCES "blood_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "request_comments" ADD CONSTRAINT "request_comments_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "BloodUnitStatus" AS ENUM ('AVAILABLE', 'RESERVED', 'ISSUED', 'EXPIRED', 'DISCARDED');
+
+-- CreateTable
+CREATE TABLE "blood_units" (
+    "id" TEXT NOT NULL,
+    "serialNumber" TEXT NOT NULL,
+    "bloodGroup" "BloodGroup" NOT NULL,
+    "collectedAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "status" "BloodUnitStatus" NOT NULL DEFAULT 'AVAILABLE',
+    "statusChangedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "donationId" TEXT,
+    "bloodBankId" TEXT NOT NULL,
+
+    CONSTRAINT "blood_units_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "blood_units_serialNumber_key" ON "blood_units"("serialNumber");
+
+-- CreateIndex
+CREATE INDEX "blood_units_bloodBankId_bloodGroup_status_expiresAt_idx" ON "blood_units"("bloodBankId", "bloodGroup", "status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "blood_units_status_expiresAt_idx" ON "blood_units"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "blood_units_donationId_idx" ON "blood_units"("donationId");
+
+-- AddForeignKey
+ALTER TABLE "blood_units" ADD CONSTRAINT "blood_units_donationId_fkey" FOREIGN KEY ("donationId") REFERENCES "donations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "blood_units" ADD CONSTRAINT "blood_units_bloodBankId_fkey" FOREIGN KEY ("bloodBankId") REFERENCES "blood_banks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: one unit per completed donation that has a serial number. Whole
+-- blood keeps 35 days when the donation has no expiry recorded. Aggregate
+-- quantities are left alone; run `npm run inventory:reconcile` to compare
+-- them with the units.
+INSERT INTO "blood_units" ("id", "serialNumber", "bloodGroup", "collectedAt", "expiresAt", "status", "updatedAt", "donationId", "bloodBankId")
+SELECT
+    gen_random_uuid()::text,
+    "unitSerialNumber",
+    "bloodGroup",
+    COALESCE("donationDate", "scheduledDate"),
+    COALESCE("expiryDate", COALESCE("donationDate", "scheduledDate") + INTERVAL '35 days'),
+    CASE
+        WHEN COALESCE("expiryDate", COALESCE("donationDate", "scheduledDate") + INTERVAL '35 days') <= CURRENT_TIMESTAMP THEN 'EXPIRED'::"BloodUnitStatus"
+        ELSE 'AVAILABLE'::"BloodUnitStatus"
+    END,
+    CURRENT_TIMESTAMP,
+    "id",
+    "bloodBankId"
+FROM "donations"
+WHERE "status" = 'COMPLETED' AND "unitSerialNumber" IS NOT NULL;
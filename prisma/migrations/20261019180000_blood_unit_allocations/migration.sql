@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "blood_units" ADD COLUMN     "allocationId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "blood_units_allocationId_idx" ON "blood_units"("allocationId");
+
+-- AddForeignKey
+ALTER TABLE "blood_units" ADD CONSTRAINT "blood_units_allocationId_fkey" FOREIGN KEY ("allocationId") REFERENCES "blood_request_allocations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "BloodComponent" AS ENUM ('WHOLE_BLOOD', 'RED_CELLS', 'PLATELETS', 'PLASMA', 'CRYO');
+
+-- AlterEnum
+ALTER TYPE "BloodUnitStatus" ADD VALUE 'SEPARATED';
+
+-- AlterTable: existing stock, requests and units are whole blood
+ALTER TABLE "blood_inventory" ADD COLUMN     "component" "BloodComponent" NOT NULL DEFAULT 'WHOLE_BLOOD';
+
+ALTER TABLE "blood_requests" ADD COLUMN     "component" "BloodComponent" NOT NULL DEFAULT 'WHOLE_BLOOD';
+
+ALTER TABLE "blood_units" ADD COLUMN     "component" "BloodComponent" NOT NULL DEFAULT 'WHOLE_BLOOD';
+
+-- DropIndex
+DROP INDEX "blood_inventory_bloodBankId_bloodGroup_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "blood_inventory_bloodBankId_bloodGroup_component_key" ON "blood_inventory"("bloodBankId", "bloodGroup", "component");
+
+-- DropIndex
+DROP INDEX "blood_units_bloodBankId_bloodGroup_status_expiresAt_idx";
+
+-- CreateIndex
+CREATE INDEX "blood_units_bloodBankId_bloodGroup_component_status_expiresAt_idx" ON "blood_units"("bloodBankId", "bloodGroup", "component", "status", "expiresAt");
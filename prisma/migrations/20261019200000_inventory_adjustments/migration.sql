@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "AdjustmentReason" AS ENUM ('DONATION_RECEIVED', 'ISSUED', 'EXPIRED', 'DAMAGED', 'TRANSFER', 'COUNT_CORRECTION');
+
+-- CreateTable
+CREATE TABLE "inventory_adjustments" (
+    "id" TEXT NOT NULL,
+    "reason" "AdjustmentReason" NOT NULL,
+    "quantityChange" INTEGER NOT NULL,
+    "previousQuantity" INTEGER NOT NULL,
+    "newQuantity" INTEGER NOT NULL,
+    "unitSerials" TEXT[],
+    "transferBloodBankId" TEXT,
+    "notes" TEXT,
+    "performedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "inventoryId" TEXT NOT NULL,
+
+    CONSTRAINT "inventory_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "inventory_adjustments_inventoryId_createdAt_idx" ON "inventory_adjustments"("inventoryId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "inventory_adjustments_reason_idx" ON "inventory_adjustments"("reason");
+
+-- AddForeignKey
+ALTER TABLE "inventory_adjustments" ADD CONSTRAINT "inventory_adjustments_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "blood_inventory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "InventoryAlertLevel" AS ENUM ('LOW', 'CRITICAL', 'OVER_CAPACITY');
+
+-- CreateTable
+CREATE TABLE "inventory_alerts" (
+    "id" TEXT NOT NULL,
+    "level" "InventoryAlertLevel" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "notifiedUserId" TEXT,
+    "raisedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "inventoryId" TEXT NOT NULL,
+
+    CONSTRAINT "inventory_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "inventory_alerts_inventoryId_resolvedAt_idx" ON "inventory_alerts"("inventoryId", "resolvedAt");
+
+-- CreateIndex
+CREATE INDEX "inventory_alerts_resolvedAt_level_idx" ON "inventory_alerts"("resolvedAt", "level");
+
+-- One open alert per inventory row, so alerts are never raised twice
+-- (Prisma cannot express partial indexes in schema.prisma)
+CREATE UNIQUE INDEX "inventory_alerts_open_inventoryId_key" ON "inventory_alerts"("inventoryId") WHERE "resolvedAt" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "inventory_alerts" ADD CONSTRAINT "inventory_alerts_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "blood_inventory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
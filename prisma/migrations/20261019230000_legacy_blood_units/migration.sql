@@ -0,0 +1,42 @@
+-- Backfill: stock recorded before units were tracked, beyond the AVAILABLE
+-- units that account for it, gets placeholder units so it can still be
+-- issued and is not zeroed by reconciliation. They have no donation and a
+-- LEGACY- serial; relabel them when the bags are next checked. They expire
+-- on the row's expiryDate, or one shelf life from now when it has none.
+INSERT INTO "blood_units" ("id", "serialNumber", "bloodGroup", "component", "collectedAt", "expiresAt", "status", "updatedAt", "donationId", "bloodBankId")
+SELECT
+    gen_random_uuid()::text,
+    'LEGACY-' || i."id" || '-' || n,
+    i."bloodGroup",
+    i."component",
+    COALESCE(i."expiryDate", CURRENT_TIMESTAMP + s."shelfLife") - s."shelfLife",
+    COALESCE(i."expiryDate", CURRENT_TIMESTAMP + s."shelfLife"),
+    CASE
+        WHEN i."expiryDate" <= CURRENT_TIMESTAMP THEN 'EXPIRED'::"BloodUnitStatus"
+        ELSE 'AVAILABLE'::"BloodUnitStatus"
+    END,
+    CURRENT_TIMESTAMP,
+    NULL,
+    i."bloodBankId"
+FROM "blood_inventory" i
+-- Shelf life per component (COMPONENT_SHELF_LIFE_DAYS in src/lib/blood-units.ts)
+CROSS JOIN LATERAL (
+    SELECT CASE i."component"
+        WHEN 'RED_CELLS' THEN INTERVAL '42 days'
+        WHEN 'PLATELETS' THEN INTERVAL '5 days'
+        WHEN 'PLASMA' THEN INTERVAL '365 days'
+        WHEN 'CRYO' THEN INTERVAL '365 days'
+        ELSE INTERVAL '35 days'
+    END AS "shelfLife"
+) s
+CROSS JOIN LATERAL generate_series(
+    1,
+    i."quantity" - (
+        SELECT COUNT(*)::integer
+        FROM "blood_units" u
+        WHERE u."bloodBankId" = i."bloodBankId"
+          AND u."bloodGroup" = i."bloodGroup"
+          AND u."component" = i."component"
+          AND u."status" = 'AVAILABLE'
+    )
+) AS n;
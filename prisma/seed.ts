@@ -6,11 +6,77 @@
  * Run: npm run prisma:seed
  */
 
-import { PrismaClient, UserRole, BloodGroup, Gender } from "@prisma/client";
+import {
+  PrismaClient,
+  UserRole,
+  BloodGroup,
+  BloodComponent,
+  BloodUnitStatus,
+  Gender,
+} from "@prisma/client";
 import bcrypt from "bcryptjs";
 
 const prisma = new PrismaClient();
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Creates shelf stock as individual units and sets the inventory total to
+// their count, as src/lib/blood-units.ts expects
+async function seedStock(
+  bloodBank: { id: string; registrationNo: string },
+  bloodGroup: BloodGroup,
+  units: number
+) {
+  await prisma.bloodUnit.createMany({
+    data: Array.from({ length: units }, (_, index) => {
+      // Collected over the last 30 days; whole blood keeps 35
+      const collectedAt = new Date(
+        Date.now() - Math.floor(Math.random() * 30) * DAY_MS
+      );
+
+      return {
+        serialNumber: `${bloodBank.registrationNo}-${bloodGroup}-${index + 1}`,
+        bloodGroup,
+        component: BloodComponent.WHOLE_BLOOD,
+        collectedAt,
+        expiresAt: new Date(collectedAt.getTime() + 35 * DAY_MS),
+        bloodBankId: bloodBank.id,
+      };
+    }),
+    skipDuplicates: true,
+  });
+
+  const stock = await prisma.bloodUnit.aggregate({
+    where: {
+      bloodBankId: bloodBank.id,
+      bloodGroup,
+      component: BloodComponent.WHOLE_BLOOD,
+      status: BloodUnitStatus.AVAILABLE,
+    },
+    _count: { _all: true },
+    _min: { expiresAt: true },
+  });
+
+  await prisma.bloodInventory.upsert({
+    where: {
+      bloodBankId_bloodGroup_component: {
+        bloodBankId: bloodBank.id,
+        bloodGroup,
+        component: BloodComponent.WHOLE_BLOOD,
+      },
+    },
+    update: { quantity: stock._count._all, expiryDate: stock._min.expiresAt },
+    create: {
+      bloodBankId: bloodBank.id,
+      bloodGroup,
+      quantity: stock._count._all,
+      expiryDate: stock._min.expiresAt,
+      minimumQuantity: 10,
+      maximumQuantity: 100,
+    },
+  });
+}
+
 async function main() {
   console.log("🌱 Starting database seed...");
 
@@ -92,43 +158,23 @@ async function main() {
   ];
 
   for (const bloodGroup of bloodGroups) {
-    await prisma.bloodInventory.upsert({
-      where: {
-        bloodBankId_bloodGroup: {
-          bloodBankId: bloodBank1.id,
-          bloodGroup: bloodGroup,
-        },
-      },
-      update: {},
-      create: {
-        bloodBankId: bloodBank1.id,
-        bloodGroup: bloodGroup,
-        quantity: Math.floor(Math.random() * 50) + 20, // Random quantity between 20-70
-        minimumQuantity: 10,
-        maximumQuantity: 100,
-      },
-    });
+    // Random quantity between 20-70
+    await seedStock(
+      bloodBank1,
+      bloodGroup,
+      Math.floor(Math.random() * 50) + 20
+    );
   }
   console.log("✅ Blood inventory created for:", bloodBank1.name);
 
   // Create Blood Inventory for Blood Bank 2
   for (const bloodGroup of bloodGroups) {
-    await prisma.bloodInventory.upsert({
-      where: {
-        bloodBankId_bloodGroup: {
-          bloodBankId: bloodBank2.id,
-          bloodGroup: bloodGroup,
-        },
-      },
-      update: {},
-      create: {
-        bloodBankId: bloodBank2.id,
-        bloodGroup: bloodGroup,
-        quantity: Math.floor(Math.random() * 50) + 15, // Random quantity between 15-65
-        minimumQuantity: 10,
-        maximumQuantity: 100,
-      },
-    });
+    // Random quantity between 15-65
+    await seedStock(
+      bloodBank2,
+      bloodGroup,
+      Math.floor(Math.random() * 50) + 15
+    );
   }
   console.log("✅ Blood inventory created for:", bloodBank2.name);
 
@@ -0,0 +1,126 @@
+/* eslint-disable no-console */
+/**
+ * Blood Request API Contract Check
+ *
+ * Compares the fields accepted by the blood request API (the zod schemas in
+ * src/lib/blood-request-schemas.ts) with the BloodRequest model in
+ * prisma/schema.prisma. Fails when:
+ *
+ * 1. A body field does not exist on the model (the route would write a
+ *    column that isn't there)
+ * 2. A model column can't be set through the API and isn't listed below as
+ *    managed by the server (the column would be unreachable)
+ *
+ * The model is read from the generated Prisma Client, so run
+ * `npm run prisma:generate` after editing schema.prisma.
+ *
+ * Run this script using:
+ * npm run test:contract
+ *
+ * OR manually:
+ * npx tsx scripts/check-api-contract.ts
+ */
+
+import { Prisma } from "@prisma/client";
+import {
+  bloodRequestCreateSchema,
+  bloodRequestPatchSchema,
+  bloodRequestReplaceSchema,
+} from "../src/lib/blood-request-schemas";
+
+// Columns set by the server (lifecycle, fulfillment, expiry sweep, soft
+// delete, timestamps), never by the request body
+const SERVER_MANAGED_FIELDS = [
+  "id",
+  "status",
+  "rejectionReason",
+  "quantityFulfilled",
+  "approvedBy",
+  "approvedAt",
+  "fulfilledAt",
+  "cancelledAt",
+  "overdueFlaggedAt",
+  "createdAt",
+  "updatedAt",
+  "deletedAt",
+  "deletedBy",
+];
+
+// Body fields that are rejected by design rather than written
+const REJECTED_FIELDS = ["status"];
+
+function checkBloodRequestContract() {
+  console.log("\n🔍 Checking blood request API contract...\n");
+
+  const model = Prisma.dmmf.datamodel.models.find(
+    (item) => item.name === "BloodRequest"
+  );
+
+  if (!model) {
+    console.error("❌ BloodRequest model not found in Prisma Client");
+    process.exit(1);
+  }
+
+  const columns = model.fields
+    .filter((field) => field.kind !== "object")
+    .map((field) => field.name);
+
+  const createFields = Object.keys(bloodRequestCreateSchema.shape);
+  const editable = (shape: object) =>
+    Object.keys(shape).filter((field) => !REJECTED_FIELDS.includes(field));
+  const replaceFields = editable(bloodRequestReplaceSchema.shape);
+  const patchFields = editable(bloodRequestPatchSchema.innerType().shape);
+
+  const problems: string[] = [];
+
+  // Check 1: every accepted body field maps to a column
+  for (const [route, fields] of [
+    ["POST /api/blood-requests", createFields],
+    ["PUT /api/blood-requests/[id]", replaceFields],
+    ["PATCH /api/blood-requests/[id]", patchFields],
+  ] as const) {
+    console.log(`✅ ${route}: ${fields.length} fields`);
+
+    for (const field of fields) {
+      if (!columns.includes(field)) {
+        problems.push(`${route} accepts "${field}", which is not a column`);
+      }
+    }
+  }
+
+  // Check 2: every column is reachable or explicitly server-managed
+  for (const column of columns) {
+    if (
+      !createFields.includes(column) &&
+      !SERVER_MANAGED_FIELDS.includes(column)
+    ) {
+      problems.push(
+        `Column "${column}" cannot be set through the API and is not server-managed`
+      );
+    }
+  }
+
+  for (const field of SERVER_MANAGED_FIELDS) {
+    if (!columns.includes(field)) {
+      problems.push(`Server-managed field "${field}" is not a column`);
+    }
+  }
+
+  console.log();
+
+  if (problems.length > 0) {
+    console.error("❌ CONTRACT CHECK FAILED!\n");
+    problems.forEach((problem, index) => {
+      console.error(`   ${index + 1}. ${problem}`);
+    });
+    console.error(
+      "\nUpdate src/lib/blood-request-schemas.ts or this script's field lists.\n"
+    );
+    process.exit(1);
+  }
+
+  console.log("✅ Blood request API matches the BloodRequest model.\n");
+}
+
+// Run the check
+checkBloodRequestContract();
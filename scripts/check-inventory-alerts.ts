@@ -0,0 +1,52 @@
+/* eslint-disable no-console */
+/**
+ * Inventory Alert Sweep
+ *
+ * Raises LOW, CRITICAL and OVER_CAPACITY alerts for blood stock outside
+ * its minimumQuantity / maximumQuantity and resolves alerts for stock that
+ * has recovered (see src/lib/inventory-alerts.ts). Schedule it with cron,
+ * e.g. every 30 minutes.
+ *
+ * Run this script using:
+ * npm run inventory:alerts
+ *
+ * OR manually (report only, no changes):
+ * npx tsx scripts/check-inventory-alerts.ts --dry-run
+ */
+
+import { prisma } from "../src/lib/prisma";
+import { sweepInventoryAlerts } from "../src/lib/inventory-alerts";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  console.log(
+    `\n🚨 Checking blood stock against thresholds${
+      dryRun ? " (dry run)" : ""
+    }...\n`
+  );
+
+  try {
+    const result = await sweepInventoryAlerts({ dryRun });
+
+    console.log(`   ✓ Inventory rows checked: ${result.checked}`);
+    console.log(`   ✓ Alerts raised: ${result.raised}`);
+    console.log(`   ✓ Alerts resolved: ${result.resolved}`);
+    result.changes.forEach((change) =>
+      console.log(
+        `      - ${change.inventoryId}: ${change.from ?? "OK"} → ${
+          change.to ?? "OK"
+        }`
+      )
+    );
+    console.log();
+  } catch (error) {
+    console.error("❌ INVENTORY ALERT SWEEP FAILED!\n");
+    console.error("Error details:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -7,10 +7,13 @@
  *
  * Scenario: A hospital places a blood request and inventory must be decremented.
  * Both operations must succeed or fail together (atomicity).
+ *
+ * The API applies the same pattern when a request is fulfilled
+ * (see src/lib/inventory.ts and POST /api/blood-requests/[id]/fulfill).
  */
 
 import { prisma } from "../src/lib/prisma";
-import { BloodGroup, RequestStatus } from "@prisma/client";
+import { BloodComponent, BloodGroup, RequestStatus } from "@prisma/client";
 
 /**
  * Creates a blood request and decrements inventory in a single transaction
@@ -48,9 +51,10 @@ async function createBloodRequestWithInventoryUpdate(requestData: {
       console.log("\n✓ Step 1: Checking inventory availability...");
       const inventory = await tx.bloodInventory.findUnique({
         where: {
-          bloodBankId_bloodGroup: {
+          bloodBankId_bloodGroup_component: {
             bloodBankId: requestData.bloodBankId,
             bloodGroup: requestData.bloodGroup,
+            component: BloodComponent.WHOLE_BLOOD,
           },
         },
       });
@@ -103,9 +107,10 @@ async function createBloodRequestWithInventoryUpdate(requestData: {
       console.log("\n✓ Step 3: Decrementing inventory...");
       const updatedInventory = await tx.bloodInventory.update({
         where: {
-          bloodBankId_bloodGroup: {
+          bloodBankId_bloodGroup_component: {
             bloodBankId: requestData.bloodBankId,
             bloodGroup: requestData.bloodGroup,
+            component: BloodComponent.WHOLE_BLOOD,
           },
         },
         data: {
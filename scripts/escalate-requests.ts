@@ -0,0 +1,47 @@
+/* eslint-disable no-console */
+/**
+ * Urgency Escalation Sweep
+ *
+ * Raises the urgency of open blood requests as their requiredBy date
+ * approaches (see src/lib/urgency-escalation.ts). Schedule it with cron,
+ * e.g. every 15 minutes.
+ *
+ * Run this script using:
+ * npm run requests:escalate
+ *
+ * OR manually (report only, no changes):
+ * npx tsx scripts/escalate-requests.ts --dry-run
+ */
+
+import { prisma } from "../src/lib/prisma";
+import { escalateRequestUrgency } from "../src/lib/urgency-escalation";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  console.log(
+    `\n📈 Escalating blood request urgency${dryRun ? " (dry run)" : ""}...\n`
+  );
+
+  try {
+    const result = await escalateRequestUrgency({ dryRun });
+
+    console.log(`   ✓ Escalated: ${result.escalated}`);
+    result.escalations.forEach((item) => {
+      console.log(
+        `      - ${item.id}: ${item.from} → ${
+          item.to
+        } (required by ${item.requiredBy.toISOString()})`
+      );
+    });
+    console.log();
+  } catch (error) {
+    console.error("❌ ESCALATION SWEEP FAILED!\n");
+    console.error("Error details:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
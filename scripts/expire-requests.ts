@@ -0,0 +1,46 @@
+/* eslint-disable no-console */
+/**
+ * Blood Request Expiry Sweep
+ *
+ * Cancels open blood requests whose requiredBy date has passed and flags
+ * partly fulfilled ones (see src/lib/request-expiry.ts). Schedule it with
+ * cron, e.g. every 15 minutes.
+ *
+ * Run this script using:
+ * npm run requests:expire
+ *
+ * OR manually (report only, no changes):
+ * npx tsx scripts/expire-requests.ts --dry-run
+ */
+
+import { prisma } from "../src/lib/prisma";
+import { expireOverdueRequests } from "../src/lib/request-expiry";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  console.log(
+    `\n⏰ Expiring overdue blood requests${dryRun ? " (dry run)" : ""}...\n`
+  );
+
+  try {
+    const result = await expireOverdueRequests({ dryRun });
+
+    console.log(
+      `   Cutoff: requests required before ${result.cutoff.toISOString()}`
+    );
+    console.log(`   ✓ Cancelled: ${result.cancelled}`);
+    result.cancelledIds.forEach((id) => console.log(`      - ${id}`));
+    console.log(`   ✓ Flagged (partly fulfilled): ${result.flagged}`);
+    result.flaggedIds.forEach((id) => console.log(`      - ${id}`));
+    console.log();
+  } catch (error) {
+    console.error("❌ EXPIRY SWEEP FAILED!\n");
+    console.error("Error details:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
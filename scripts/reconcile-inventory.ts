@@ -0,0 +1,51 @@
+/* eslint-disable no-console */
+/**
+ * Blood Inventory Reconciliation
+ *
+ * Expires blood units past their date, creates units for completed
+ * donations that have none, and rewrites BloodInventory totals that no
+ * longer match their available units (see src/lib/blood-units.ts).
+ * Schedule it with cron, e.g. hourly.
+ *
+ * Run this script using:
+ * npm run inventory:reconcile
+ *
+ * OR manually (report only, no changes):
+ * npx tsx scripts/reconcile-inventory.ts --dry-run
+ */
+
+import { prisma } from "../src/lib/prisma";
+import { reconcileInventory } from "../src/lib/blood-units";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  console.log(
+    `\n🩸 Reconciling blood inventory with units${
+      dryRun ? " (dry run)" : ""
+    }...\n`
+  );
+
+  try {
+    const result = await reconcileInventory({ dryRun });
+
+    console.log(`   ✓ Units created from donations: ${result.unitsCreated}`);
+    console.log(`   ✓ Units expired: ${result.unitsExpired}`);
+    console.log(`   ✓ Inventory rows out of step: ${result.drift.length}`);
+    result.drift.forEach((entry) =>
+      console.log(
+        `      - ${entry.bloodBankId} ${entry.bloodGroup}: recorded ${entry.recorded.quantity}, units ${entry.actual.quantity}`
+      )
+    );
+    if (!dryRun) console.log(`   ✓ Corrected: ${result.corrected}`);
+    console.log();
+  } catch (error) {
+    console.error("❌ INVENTORY RECONCILIATION FAILED!\n");
+    console.error("Error details:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,98 @@
+/**
+ * Analytics API - Blood Request Turnaround
+ *
+ * Handles performance reporting for blood banks:
+ * - GET /api/analytics/requests/turnaround - Turnaround percentiles and rejection rates
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { requireAdmin } from "@/lib/actors";
+import {
+  buildBloodRequestWhere,
+  parseBloodRequestQuery,
+} from "@/lib/blood-request-query";
+import { requireReportWindow, summarizeTurnaround } from "@/lib/turnaround";
+
+/**
+ * GET /api/analytics/requests/turnaround
+ *
+ * Reports how long blood requests take from createdAt to approvedAt to
+ * fulfilledAt, as p50/p90/p99 hours overall and by blood bank, urgency,
+ * blood group and month created, with SLA breach counts. Also returns the
+ * rejection rate broken down by rejectionReason.
+ *
+ * Query Parameters (same filters as GET /api/blood-requests):
+ * - fromDate / toDate (required): createdAt window (ISO date) of at most
+ *   366 days, e.g. a reporting quarter
+ * - status, urgency, bloodGroup: Comma-separated lists
+ * - requiredFrom / requiredTo: requiredBy window (ISO date)
+ * - requesterId, hospitalId, bloodBankId: Filter by related entity
+ * - includeDeleted: true to include soft-deleted requests (admin only,
+ *   requires actorId of an ADMIN user)
+ *
+ * Response:
+ * - 200 OK: Returns turnaround statistics and rejection breakdown
+ * - 400 Bad Request: Invalid filter value, or the createdAt window is
+ *   missing or longer than 366 days
+ * - 403 Forbidden: includeDeleted requested by a non-admin
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { filter } = parseBloodRequestQuery(searchParams);
+    requireReportWindow(filter);
+
+    if (filter.includeDeleted) {
+      await requireAdmin(searchParams.get("actorId"));
+    }
+
+    const requests = await prisma.bloodRequest.findMany({
+      where: buildBloodRequestWhere(filter),
+      select: {
+        status: true,
+        urgency: true,
+        bloodGroup: true,
+        rejectionReason: true,
+        createdAt: true,
+        approvedAt: true,
+        fulfilledAt: true,
+        bloodBank: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    const now = new Date();
+
+    return NextResponse.json({
+      success: true,
+      data: summarizeTurnaround(requests, now),
+      filters: filter,
+      generatedAt: now,
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error building turnaround analytics:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message:
+            "Failed to build turnaround analytics. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
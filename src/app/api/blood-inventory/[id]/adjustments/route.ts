@@ -0,0 +1,175 @@
+/**
+ * Blood Inventory API - Stock Adjustments
+ *
+ * Handles stock changes made outside the request workflow:
+ * - GET /api/blood-inventory/[id]/adjustments - Adjustment history
+ * - POST /api/blood-inventory/[id]/adjustments - Adjust stock with a reason
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { MAX_PAGE_SIZE, parsePositiveInt } from "@/lib/blood-request-query";
+import { adjustInventory } from "@/lib/inventory-adjustments";
+import { adjustmentSchema } from "@/lib/inventory-schemas";
+import { parseBody } from "@/lib/validation";
+
+/**
+ * GET /api/blood-inventory/[id]/adjustments
+ *
+ * Lists a stock row's adjustments, newest first
+ *
+ * URL Parameters:
+ * - id: Inventory row UUID
+ *
+ * Query Parameters:
+ * - page: Page number (default: 1)
+ * - limit: Items per page (default: 20, max: 100)
+ *
+ * Response:
+ * - 200 OK: Returns adjustments with pagination metadata
+ * - 400 Bad Request: Invalid page or limit
+ * - 404 Not Found: Inventory row doesn't exist
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const page = parsePositiveInt(searchParams, "page", 1);
+    const limit = parsePositiveInt(searchParams, "limit", 20, MAX_PAGE_SIZE);
+
+    const inventory = await prisma.bloodInventory.findUnique({
+      where: { id: params.id },
+      select: { id: true },
+    });
+
+    if (!inventory) {
+      throw new ApiError(404, "NOT_FOUND", "Inventory record not found");
+    }
+
+    const where = { inventoryId: inventory.id };
+
+    const [adjustments, total] = await Promise.all([
+      prisma.inventoryAdjustment.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+      }),
+      prisma.inventoryAdjustment.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: adjustments,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error fetching inventory adjustments:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message:
+            "Failed to fetch inventory adjustments. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/blood-inventory/[id]/adjustments
+ *
+ * Changes stock for a reason, in one transaction. Quantity is never set
+ * directly: each reason acts on units and the total follows.
+ *
+ * URL Parameters:
+ * - id: Inventory row UUID
+ *
+ * Request Body (validated by adjustmentSchema; fields depend on reason):
+ * {
+ *   actorId: string (UUID of the blood bank staff member or admin)
+ *   reason: "DONATION_RECEIVED" | "ISSUED" | "EXPIRED" | "DAMAGED"
+ *     | "TRANSFER" | "COUNT_CORRECTION"
+ *   notes?: string
+ *
+ *   DONATION_RECEIVED: donationIds: string[] (completed donations)
+ *   ISSUED:            quantity: number (issued first-expiry-first-out)
+ *   EXPIRED, DAMAGED:  unitSerials: string[]
+ *   TRANSFER:          unitSerials: string[], toBloodBankId: string (UUID)
+ *   COUNT_CORRECTION:  countedQuantity: number (physical count),
+ *                      missingSerials?: string[] (units not found; discarded)
+ * }
+ *
+ * Up to 100 donations or units per adjustment. Unknown fields, including
+ * fields of another reason, are rejected.
+ *
+ * Response:
+ * - 201 Created: Returns the adjustment and the updated inventory row
+ * - 400 Bad Request: Validation error, or a transfer to the same bank
+ * - 403 Forbidden: Actor is not blood bank staff or an admin
+ * - 404 Not Found: Actor, inventory row, donation, destination blood bank
+ *   or unit serial (UNIT_NOT_FOUND) doesn't exist
+ * - 409 Conflict: Units already left the shelf (UNIT_NOT_AVAILABLE),
+ *   EXPIRED units that have not expired (UNIT_NOT_EXPIRED), not enough
+ *   units to issue (INSUFFICIENT_STOCK), a donation for other stock
+ *   (DONATION_MISMATCH) or already received (UNIT_ALREADY_EXISTS), an
+ *   inactive destination (BLOOD_BANK_INACTIVE), or a physical count that
+ *   differs from the units on record once missingSerials are discarded
+ *   (COUNT_MISMATCH)
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await parseBody(request, adjustmentSchema);
+
+    const { adjustment, inventory } = await adjustInventory(params.id, body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Inventory adjusted by ${adjustment.quantityChange} units`,
+        data: { adjustment, inventory },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error adjusting blood inventory:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to adjust blood inventory. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Blood Inventory API - Single Resource Endpoints
+ *
+ * Handles individual stock rows:
+ * - GET /api/blood-inventory/[id] - Get a stock row with its shelf units
+ *
+ * Stock changes go through the adjustments route in the nested folder.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { BloodUnitStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+// Latest adjustments shown with the row; the full history is paginated
+// at /api/blood-inventory/[id]/adjustments
+const RECENT_ADJUSTMENTS = 10;
+
+/**
+ * GET /api/blood-inventory/[id]
+ *
+ * Retrieves a stock row with its blood bank, the AVAILABLE units behind
+ * the quantity (soonest expiry first, the order they are issued in) and
+ * the latest adjustments
+ *
+ * URL Parameters:
+ * - id: Inventory row UUID
+ *
+ * Response:
+ * - 200 OK: Returns the inventory row
+ * - 404 Not Found: Inventory row doesn't exist
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const inventory = await prisma.bloodInventory.findUnique({
+      where: { id: params.id },
+      include: {
+        bloodBank: {
+          select: {
+            id: true,
+            name: true,
+            city: true,
+            state: true,
+            phone: true,
+            isActive: true,
+          },
+        },
+        adjustments: {
+          orderBy: { createdAt: "desc" },
+          take: RECENT_ADJUSTMENTS,
+        },
+      },
+    });
+
+    if (!inventory) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Inventory record not found",
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const units = await prisma.bloodUnit.findMany({
+      where: {
+        bloodBankId: inventory.bloodBankId,
+        bloodGroup: inventory.bloodGroup,
+        component: inventory.component,
+        status: BloodUnitStatus.AVAILABLE,
+      },
+      select: {
+        id: true,
+        serialNumber: true,
+        collectedAt: true,
+        expiresAt: true,
+      },
+      orderBy: [{ expiresAt: "asc" }, { id: "asc" }],
+    });
+
+    const { adjustments, ...row } = inventory;
+
+    return NextResponse.json({
+      success: true,
+      data: { ...row, units, recentAdjustments: adjustments },
+    });
+  } catch (error) {
+    console.error("Error fetching inventory record:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch inventory record. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Blood Inventory API - Low Stock
+ *
+ * Lists stock that needs replenishing:
+ * - GET /api/blood-inventory/low-stock - Rows below their minimumQuantity
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { InventoryAlertLevel } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import {
+  buildInventoryWhere,
+  parseInventoryQuery,
+} from "@/lib/inventory-query";
+import { stockLevel } from "@/lib/inventory-alerts";
+import { getInventoryCriticalPercent } from "@/lib/env";
+
+/**
+ * GET /api/blood-inventory/low-stock
+ *
+ * Lists stock at active blood banks below its minimumQuantity, most urgent
+ * first: CRITICAL rows (at or below INVENTORY_CRITICAL_PERCENT of the
+ * minimum), then by how little is left relative to the minimum. Levels are
+ * computed from the current quantity; `alert` is the open InventoryAlert
+ * for the row, if it has been raised.
+ *
+ * Query Parameters:
+ * - bloodBankId: Filter by blood bank
+ * - bloodGroup: Filter by blood group (comma-separated list)
+ * - component: Filter by component (comma-separated list)
+ * - city / state: Filter by blood bank location (case-insensitive)
+ *
+ * Response:
+ * - 200 OK: Returns low rows with level and shortfall (units needed to
+ *   reach the minimum)
+ * - 400 Bad Request: Invalid filter value
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { filter } = parseInventoryQuery(searchParams);
+    const criticalPercent = getInventoryCriticalPercent();
+
+    const rows = await prisma.bloodInventory.findMany({
+      where: {
+        AND: [
+          buildInventoryWhere(filter),
+          { quantity: { lt: prisma.bloodInventory.fields.minimumQuantity } },
+        ],
+      },
+      select: {
+        id: true,
+        bloodGroup: true,
+        component: true,
+        quantity: true,
+        minimumQuantity: true,
+        maximumQuantity: true,
+        expiryDate: true,
+        lastUpdated: true,
+        bloodBank: {
+          select: {
+            id: true,
+            name: true,
+            city: true,
+            state: true,
+            phone: true,
+          },
+        },
+        alerts: {
+          where: { resolvedAt: null },
+          select: { id: true, level: true, raisedAt: true },
+        },
+      },
+    });
+
+    const lowStock = rows
+      .map(({ alerts, ...row }) => ({
+        ...row,
+        level: stockLevel(row, criticalPercent),
+        shortfall: row.minimumQuantity - row.quantity,
+        alert: alerts[0] ?? null,
+      }))
+      .sort(
+        (a, b) =>
+          Number(b.level === InventoryAlertLevel.CRITICAL) -
+            Number(a.level === InventoryAlertLevel.CRITICAL) ||
+          a.quantity / a.minimumQuantity - b.quantity / b.minimumQuantity ||
+          b.shortfall - a.shortfall
+      );
+
+    return NextResponse.json({
+      success: true,
+      data: lowStock,
+      count: lowStock.length,
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error fetching low stock:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch low stock. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Blood Inventory API - Collection Endpoints
+ *
+ * Handles blood stock lookups:
+ * - GET /api/blood-inventory - List stock per blood bank, group and component
+ *
+ * Stock is not created or edited here: rows appear as units are received
+ * and change only through adjustments (see [id]/adjustments).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import {
+  buildInventoryWhere,
+  parseInventoryQuery,
+} from "@/lib/inventory-query";
+
+// Fields returned for each inventory row in the list
+const listSelect = {
+  id: true,
+  bloodGroup: true,
+  component: true,
+  quantity: true,
+  minimumQuantity: true,
+  maximumQuantity: true,
+  expiryDate: true,
+  lastUpdated: true,
+  bloodBank: {
+    select: {
+      id: true,
+      name: true,
+      city: true,
+      state: true,
+      phone: true,
+    },
+  },
+} satisfies Prisma.BloodInventorySelect;
+
+/**
+ * GET /api/blood-inventory
+ *
+ * Retrieves a paginated list of stock at active blood banks
+ *
+ * Query Parameters:
+ * - page: Page number (default: 1)
+ * - limit: Items per page (default: 20, max: 100)
+ * - bloodBankId: Filter by blood bank
+ * - bloodGroup: Filter by blood group (A_POSITIVE, B_POSITIVE, etc.)
+ * - component: Filter by component (WHOLE_BLOOD, RED_CELLS, PLATELETS,
+ *   PLASMA, CRYO)
+ * - city / state: Filter by blood bank location (case-insensitive)
+ * - minQuantity: Only rows with at least this many units
+ *
+ * bloodGroup and component accept comma-separated lists
+ * (e.g. bloodGroup=O_NEGATIVE,O_POSITIVE).
+ *
+ * Results are ordered by blood bank name, then blood group and component.
+ *
+ * Response:
+ * - 200 OK: Returns array of inventory rows with pagination metadata
+ * - 400 Bad Request: Invalid filter value
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { filter, page, limit } = parseInventoryQuery(searchParams);
+
+    const where = buildInventoryWhere(filter);
+    const skip = (page - 1) * limit;
+
+    const [inventory, total] = await Promise.all([
+      prisma.bloodInventory.findMany({
+        where,
+        skip,
+        take: limit,
+        select: listSelect,
+        orderBy: [
+          { bloodBank: { name: "asc" } },
+          { bloodGroup: "asc" },
+          { component: "asc" },
+          { id: "asc" },
+        ],
+      }),
+      prisma.bloodInventory.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: inventory,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error fetching blood inventory:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch blood inventory. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Blood Requests API - Cancel Action
+ *
+ * Handles the cancel state transition:
+ * - POST /api/blood-requests/[id]/cancel - Cancels a pending or approved blood request
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { etagFor } from "@/lib/etag";
+import { withSla } from "@/lib/request-sla";
+import { transitionBloodRequest } from "@/lib/request-lifecycle";
+import { cancelSchema } from "@/lib/blood-request-schemas";
+import { parseBody } from "@/lib/validation";
+
+/**
+ * POST /api/blood-requests/[id]/cancel
+ *
+ * Cancels a pending or approved blood request
+ *
+ * URL Parameters:
+ * - id: Blood request UUID
+ *
+ * Request Body:
+ * {
+ *   actorId: string (UUID of the user cancelling)
+ *   reason?: string
+ * }
+ *
+ * Headers:
+ * - If-Match (optional): ETag from a previous GET. The action is refused
+ *   if the request has changed since.
+ *
+ * Response:
+ * - 200 OK: Request cancelled successfully
+ * - 400 Bad Request: Validation error
+ * - 404 Not Found: Blood request or actor doesn't exist
+ * - 409 Conflict: Request status does not allow this action
+ * - 412 Precondition Failed: If-Match is stale; details.current holds the
+ *   current version
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await parseBody(request, cancelSchema);
+
+    const bloodRequest = await transitionBloodRequest(params.id, "cancel", {
+      actorId: body.actorId,
+      ifMatch: request.headers.get("If-Match"),
+      reason: body.reason,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Blood request cancelled successfully",
+        data: withSla(bloodRequest),
+      },
+      { headers: { ETag: etagFor(bloodRequest) } }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error cancelling blood request:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to cancel blood request. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
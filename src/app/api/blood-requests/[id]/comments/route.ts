@@ -0,0 +1,122 @@
+/**
+ * Blood Requests API - Comment Thread
+ *
+ * Handles coordination messages on a blood request:
+ * - GET /api/blood-requests/[id]/comments - List comments
+ * - POST /api/blood-requests/[id]/comments - Post a comment
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { addComment, listComments } from "@/lib/request-comments";
+import { commentSchema } from "@/lib/blood-request-schemas";
+import { parseBody } from "@/lib/validation";
+
+/**
+ * GET /api/blood-requests/[id]/comments
+ *
+ * Lists the request's comments, oldest first. Internal comments are only
+ * included for blood bank staff and admins other than the requester.
+ *
+ * URL Parameters:
+ * - id: Blood request UUID
+ *
+ * Query Parameters:
+ * - actorId: UUID of the user viewing the thread (omit to see public
+ *   comments only)
+ *
+ * Response:
+ * - 200 OK: Returns comments with their authors
+ * - 404 Not Found: Blood request or actor doesn't exist
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const comments = await listComments(params.id, searchParams.get("actorId"));
+
+    return NextResponse.json({
+      success: true,
+      data: comments,
+      count: comments.length,
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error fetching comments:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch comments. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/blood-requests/[id]/comments
+ *
+ * Posts a comment on the request's thread
+ *
+ * URL Parameters:
+ * - id: Blood request UUID
+ *
+ * Request Body:
+ * {
+ *   actorId: string (UUID of the author)
+ *   body: string (1-5000 characters)
+ *   internal?: boolean (default: false; blood bank staff and admins only)
+ * }
+ *
+ * Response:
+ * - 201 Created: Returns the comment
+ * - 400 Bad Request: Validation error
+ * - 403 Forbidden: Internal comment from a user who can't post one
+ * - 404 Not Found: Blood request or actor doesn't exist
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await parseBody(request, commentSchema);
+    const comment = await addComment(params.id, body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Comment posted successfully",
+        data: comment,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error posting comment:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to post comment. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
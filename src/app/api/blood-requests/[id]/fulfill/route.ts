@@ -0,0 +1,111 @@
+/**
+ * Blood Requests API - Fulfill Action
+ *
+ * Handles the fulfill state transition:
+ * - POST /api/blood-requests/[id]/fulfill - Issues units for an approved blood request
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { etagFor } from "@/lib/etag";
+import { withSla } from "@/lib/request-sla";
+import { transitionBloodRequest } from "@/lib/request-lifecycle";
+import { fulfillSchema } from "@/lib/blood-request-schemas";
+import { parseBody } from "@/lib/validation";
+
+/**
+ * POST /api/blood-requests/[id]/fulfill
+ *
+ * Issues units for an approved blood request and removes them from blood
+ * bank inventory in one transaction. Each issue is recorded as an
+ * allocation (blood bank, blood group actually issued, quantity) listing
+ * the serial numbers of the units issued.
+ *
+ * Only units of the requested component are issued, and substitutes
+ * follow that component's compatibility rules (plasma and cryo reverse the
+ * red cell rules). Units are picked first-expiry-first-out. Units with less than
+ * `minShelfLifeDays` left are skipped; without it, the purpose rules in
+ * UNIT_MIN_SHELF_LIFE_BY_PURPOSE apply.
+ *
+ * Without `allocations`, the remaining quantity is issued from the assigned
+ * blood bank. With `allocations`, the request can be split across several
+ * blood banks and may be fulfilled partially; it stays APPROVED until the
+ * allocated units reach quantityNeeded, then becomes FULFILLED.
+ *
+ * URL Parameters:
+ * - id: Blood request UUID
+ *
+ * Request Body:
+ * {
+ *   actorId: string (UUID of the staff member issuing the blood)
+ *   issuedBloodGroup?: BloodGroup enum (compatible substitute to issue)
+ *   allowSubstitution?: boolean (pick the best compatible substitute
+ *     when the requested group is out of stock)
+ *   allocations?: [
+ *     { bloodBankId: string, quantity: number, issuedBloodGroup?: BloodGroup }
+ *   ]
+ *   minShelfLifeDays?: number (days a unit must have left before expiry)
+ * }
+ *
+ * Headers:
+ * - If-Match (optional): ETag from a previous GET. The action is refused
+ *   if the request has changed since.
+ *
+ * Response:
+ * - 200 OK: Units issued (request FULFILLED or still partially APPROVED)
+ * - 400 Bad Request: Validation error, incompatible issuedBloodGroup or
+ *   more units allocated than still needed (OVER_ALLOCATION)
+ * - 404 Not Found: Blood request or actor doesn't exist
+ * - 409 Conflict: Request status does not allow this action, no blood bank
+ *   is assigned, or there are not enough usable units (INSUFFICIENT_STOCK,
+ *   with compatible substitutes listed in details.substitutes)
+ * - 412 Precondition Failed: If-Match is stale; details.current holds the
+ *   current version
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await parseBody(request, fulfillSchema);
+
+    const bloodRequest = await transitionBloodRequest(params.id, "fulfill", {
+      actorId: body.actorId,
+      ifMatch: request.headers.get("If-Match"),
+      issuedBloodGroup: body.issuedBloodGroup,
+      allowSubstitution: body.allowSubstitution,
+      allocations: body.allocations,
+      minShelfLifeDays: body.minShelfLifeDays,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message:
+          bloodRequest.status === "FULFILLED"
+            ? "Blood request fulfilled successfully"
+            : "Blood request partially fulfilled",
+        data: withSla(bloodRequest),
+      },
+      { headers: { ETag: etagFor(bloodRequest) } }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error fulfilling blood request:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fulfill blood request. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
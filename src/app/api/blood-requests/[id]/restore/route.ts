@@ -0,0 +1,75 @@
+/**
+ * Blood Requests API - Restore
+ *
+ * Undoes a soft delete:
+ * - POST /api/blood-requests/[id]/restore - Restores a deleted blood request
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { etagFor } from "@/lib/etag";
+import { withSla } from "@/lib/request-sla";
+import { restoreBloodRequest } from "@/lib/request-deletion";
+import { transitionSchema } from "@/lib/blood-request-schemas";
+import { parseBody } from "@/lib/validation";
+
+/**
+ * POST /api/blood-requests/[id]/restore
+ *
+ * Clears deletedAt/deletedBy on a soft-deleted blood request and writes an
+ * AuditLog entry. The request keeps the status it had when deleted.
+ *
+ * URL Parameters:
+ * - id: Blood request UUID
+ *
+ * Request Body:
+ * {
+ *   actorId: string (UUID of an ADMIN user)
+ * }
+ *
+ * Response:
+ * - 200 OK: Request restored successfully
+ * - 400 Bad Request: Validation error
+ * - 403 Forbidden: Actor is not an admin
+ * - 404 Not Found: Blood request or actor doesn't exist
+ * - 409 Conflict: Request is not deleted (NOT_DELETED)
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await parseBody(request, transitionSchema);
+
+    const bloodRequest = await restoreBloodRequest(params.id, {
+      actorId: body.actorId,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Blood request restored successfully",
+        data: withSla(bloodRequest),
+      },
+      { headers: { ETag: etagFor(bloodRequest) } }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error restoring blood request:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to restore blood request. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
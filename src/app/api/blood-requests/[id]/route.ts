@@ -3,25 +3,50 @@
  *
  * Handles individual blood request operations:
  * - GET /api/blood-requests/[id] - Get a specific blood request
- * - PUT /api/blood-requests/[id] - Update a blood request
- * - DELETE /api/blood-requests/[id] - Delete a blood request
+ * - PUT /api/blood-requests/[id] - Replace a blood request's editable fields
+ * - PATCH /api/blood-requests/[id] - Partially update (JSON Merge Patch)
+ * - DELETE /api/blood-requests/[id] - Soft-delete a blood request
+ *
+ * Status changes are handled by the action routes
+ * (approve, fulfill, reject, cancel) in the nested folders, and
+ * restoring a deleted request by the restore route.
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
-import { RequestStatus, BloodGroup } from "@prisma/client";
+import { summarizeFulfillment } from "@/lib/allocation";
+import {
+  bloodRequestPatchSchema,
+  bloodRequestReplaceSchema,
+  deleteSchema,
+} from "@/lib/blood-request-schemas";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { requireAdmin } from "@/lib/actors";
+import { withSla } from "@/lib/request-sla";
+import { etagFor, ifMatches, preconditionFailed } from "@/lib/etag";
+import { bloodRequestInclude, checkRequestEdit } from "@/lib/request-lifecycle";
+import { softDeleteBloodRequest } from "@/lib/request-deletion";
+import { parseBody } from "@/lib/validation";
 
 /**
  * GET /api/blood-requests/[id]
  *
- * Retrieves a single blood request by ID with full details
+ * Retrieves a single blood request by ID with full details, including the
+ * allocation breakdown of units issued per blood bank
  *
  * URL Parameters:
  * - id: Blood request UUID
  *
+ * Query Parameters:
+ * - includeDeleted: true to return a soft-deleted request (admin only,
+ *   requires actorId of an ADMIN user)
+ *
  * Response:
- * - 200 OK: Returns the blood request
- * - 404 Not Found: Blood request doesn't exist
+ * - 200 OK: Returns the blood request, with an ETag header to send as
+ *   If-Match on later updates, deletes and status actions
+ * - 403 Forbidden: includeDeleted requested by a non-admin
+ * - 404 Not Found: Blood request doesn't exist or is deleted
  * - 500 Internal Server Error: Database or server error
  */
 export async function GET(
@@ -29,9 +54,17 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
+    const { searchParams } = new URL(request.url);
+    const includeDeleted = searchParams.get("includeDeleted") === "true";
+
+    // Deleted requests are an admin-only view
+    if (includeDeleted) {
+      await requireAdmin(searchParams.get("actorId"));
+    }
+
     // Fetch blood request with related data
-    const bloodRequest = await prisma.bloodRequest.findUnique({
-      where: { id: params.id },
+    const bloodRequest = await prisma.bloodRequest.findFirst({
+      where: { id: params.id, ...(!includeDeleted && { deletedAt: null }) },
       include: {
         // Include requester information
         requester: {
@@ -40,10 +73,22 @@ export async function GET(
             firstName: true,
             lastName: true,
             email: true,
-            phoneNumber: true,
+            phone: true,
             role: true,
           },
         },
+        // Include the hospital the request was made for
+        hospital: {
+          select: {
+            id: true,
+            name: true,
+            address: true,
+            city: true,
+            state: true,
+            phone: true,
+            emergencyPhone: true,
+          },
+        },
         // Include blood bank information
         bloodBank: {
           select: {
@@ -53,11 +98,33 @@ export async function GET(
             city: true,
             state: true,
             pincode: true,
-            phoneNumber: true,
+            phone: true,
             email: true,
             operatingHours: true,
           },
         },
+        // Include units issued so far, per blood bank
+        allocations: {
+          select: {
+            id: true,
+            quantity: true,
+            bloodGroup: true,
+            allocatedBy: true,
+            createdAt: true,
+            bloodBank: {
+              select: {
+                id: true,
+                name: true,
+                city: true,
+              },
+            },
+            units: {
+              select: { serialNumber: true, expiresAt: true },
+              orderBy: { expiresAt: "asc" },
+            },
+          },
+          orderBy: { createdAt: "asc" },
+        },
       },
     });
 
@@ -75,12 +142,23 @@ export async function GET(
       );
     }
 
-    // Return success response
-    return NextResponse.json({
-      success: true,
-      data: bloodRequest,
-    });
+    // Return success response with the fulfillment breakdown; the ETag
+    // is sent back in If-Match on later writes
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...withSla(bloodRequest),
+          fulfillment: summarizeFulfillment(bloodRequest),
+        },
+      },
+      { headers: { ETag: etagFor(bloodRequest) } }
+    );
   } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
     console.error("Error fetching blood request:", error);
 
     return NextResponse.json(
@@ -99,157 +177,172 @@ export async function GET(
 /**
  * PUT /api/blood-requests/[id]
  *
- * Updates a blood request (full or partial update)
+ * Replaces the editable fields of a blood request. All required fields
+ * must be sent; optional fields that are left out are cleared. Use PATCH
+ * to change only some fields.
  *
  * URL Parameters:
  * - id: Blood request UUID
  *
- * Request Body (all fields optional for partial update):
+ * Request Body (application/json, validated by bloodRequestReplaceSchema):
  * {
- *   bloodGroup?: BloodGroup enum
- *   quantityNeeded?: number
- *   status?: RequestStatus enum
- *   urgency?: "NORMAL" | "URGENT" | "CRITICAL"
- *   patientName?: string
- *   patientAge?: number
- *   purpose?: string
- *   requiredBy?: Date (ISO string)
- *   additionalNotes?: string
+ *   bloodGroup: BloodGroup enum
+ *   component: BloodComponent enum
+ *   quantityNeeded: number (whole units, > 0)
+ *   urgency: "NORMAL" | "URGENT" | "CRITICAL"
+ *   patientName: string
+ *   patientAge: number (0-150)
+ *   patientGender?: Gender enum
+ *   purpose: string
+ *   requiredBy: Date (ISO string)
+ *   medicalNotes?: string
+ *   doctorName?: string
+ *   doctorContact?: string
+ *   hospitalId?: string (UUID)
  * }
  *
+ * Headers:
+ * - If-Match (optional): ETag from a previous GET. The update is refused
+ *   if the request has changed since.
+ *
  * Response:
- * - 200 OK: Request updated successfully
- * - 400 Bad Request: Validation error
- * - 404 Not Found: Blood request doesn't exist
+ * - 200 OK: Request updated successfully (with the new ETag)
+ * - 400 Bad Request: Validation error, with one entry per invalid, missing
+ *   or unknown field (status is rejected; use the action endpoints)
+ * - 404 Not Found: Blood request (or it is deleted) or hospital doesn't exist
+ * - 409 Conflict: quantityNeeded is less than the units already issued,
+ *   or bloodGroup, component or a lower quantityNeeded sent for a request
+ *   that is no longer PENDING or has units issued
+ * - 409 Conflict (EDIT_CONFLICT): without If-Match, the request kept
+ *   changing while the edit was retried
+ * - 412 Precondition Failed: If-Match is stale; details.current holds the
+ *   current version
+ * - 415 Unsupported Media Type: Content-Type is not application/json
  * - 500 Internal Server Error: Database or server error
  */
 export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  try {
-    // Parse request body
-    const body = await request.json();
+  return updateBloodRequest(request, params.id, () =>
+    parseBody(request, bloodRequestReplaceSchema, ["application/json"])
+  );
+}
 
-    // Build update data object (only include provided fields)
-    const updateData: any = {};
+/**
+ * PATCH /api/blood-requests/[id]
+ *
+ * Partially updates a blood request using JSON Merge Patch (RFC 7396):
+ * fields left out are unchanged and null clears an optional field
+ * (patientGender, medicalNotes, doctorName, doctorContact, hospitalId).
+ *
+ * URL Parameters:
+ * - id: Blood request UUID
+ *
+ * Request Body (application/merge-patch+json, validated by
+ * bloodRequestPatchSchema): any subset of the PUT fields, e.g.
+ * { "urgency": "CRITICAL", "doctorName": null }
+ *
+ * Headers:
+ * - If-Match (optional): ETag from a previous GET
+ *
+ * Response:
+ * - 200 OK: Request updated successfully (with the new ETag)
+ * - 400 Bad Request: Validation error, with one entry per invalid or
+ *   unknown field (required fields cannot be null; status is rejected)
+ * - 404 Not Found: Blood request (or it is deleted) or hospital doesn't exist
+ * - 409 Conflict: quantityNeeded is less than the units already issued,
+ *   or bloodGroup, component or a lower quantityNeeded sent for a request
+ *   that is no longer PENDING or has units issued
+ * - 409 Conflict (EDIT_CONFLICT): without If-Match, the request kept
+ *   changing while the edit was retried
+ * - 412 Precondition Failed: If-Match is stale; details.current holds the
+ *   current version
+ * - 415 Unsupported Media Type: Content-Type is not
+ *   application/merge-patch+json
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  return updateBloodRequest(request, params.id, () =>
+    parseBody(request, bloodRequestPatchSchema, [
+      "application/merge-patch+json",
+    ])
+  );
+}
 
-    // Validate and add fields if provided
-    if (body.bloodGroup !== undefined) {
-      updateData.bloodGroup = body.bloodGroup;
-    }
+// Writes attempted for one edit without If-Match before giving up with 409
+const MAX_EDIT_ATTEMPTS = 3;
 
-    if (body.quantityNeeded !== undefined) {
-      if (body.quantityNeeded <= 0) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "VALIDATION_ERROR",
-              message: "Quantity needed must be greater than 0",
-            },
-          },
-          { status: 400 }
-        );
-      }
-      updateData.quantityNeeded = body.quantityNeeded;
-    }
+/**
+ * Shared PUT/PATCH flow: validate the body, check the hospital, If-Match
+ * and the edit against the current request, then write the changes
+ */
+async function updateBloodRequest(
+  request: NextRequest,
+  id: string,
+  readBody: () => Promise<Prisma.BloodRequestUncheckedUpdateInput>,
+  attemptsLeft = MAX_EDIT_ATTEMPTS
+) {
+  // Refuse stale edits when the client sent If-Match
+  const ifMatch = request.headers.get("If-Match");
+  let body: Prisma.BloodRequestUncheckedUpdateInput | undefined;
 
-    if (body.status !== undefined) {
-      // Validate status is a valid enum value
-      const validStatuses: RequestStatus[] = [
-        "PENDING",
-        "APPROVED",
-        "REJECTED",
-        "FULFILLED",
-        "CANCELLED",
-      ];
-      if (!validStatuses.includes(body.status)) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "VALIDATION_ERROR",
-              message: "Invalid status value",
-              details: { validStatuses },
-            },
-          },
-          { status: 400 }
-        );
-      }
-      updateData.status = body.status;
-    }
+  try {
+    // Parse and validate request body
+    body = await readBody();
 
-    if (body.urgency !== undefined) {
-      updateData.urgency = body.urgency;
-    }
+    // Verify hospital exists when the request is relinked to one
+    if (typeof body.hospitalId === "string") {
+      const hospital = await prisma.hospital.findUnique({
+        where: { id: body.hospitalId },
+      });
 
-    if (body.patientName !== undefined) {
-      updateData.patientName = body.patientName;
-    }
-
-    if (body.patientAge !== undefined) {
-      if (body.patientAge < 0 || body.patientAge > 150) {
+      if (!hospital) {
         return NextResponse.json(
           {
             success: false,
             error: {
-              code: "VALIDATION_ERROR",
-              message: "Patient age must be between 0 and 150",
+              code: "NOT_FOUND",
+              message: "Hospital not found",
             },
           },
-          { status: 400 }
+          { status: 404 }
         );
       }
-      updateData.patientAge = body.patientAge;
-    }
-
-    if (body.purpose !== undefined) {
-      updateData.purpose = body.purpose;
-    }
-
-    if (body.requiredBy !== undefined) {
-      updateData.requiredBy = new Date(body.requiredBy);
     }
 
-    if (body.patientGender !== undefined) {
-      updateData.patientGender = body.patientGender;
-    }
-
-    if (body.hospitalName !== undefined) {
-      updateData.hospitalName = body.hospitalName;
-    }
-
-    if (body.doctorName !== undefined) {
-      updateData.doctorName = body.doctorName;
-    }
+    const current = await prisma.bloodRequest.findFirst({
+      where: { id: id, deletedAt: null },
+      include: bloodRequestInclude,
+    });
 
-    if (body.contactNumber !== undefined) {
-      updateData.contactNumber = body.contactNumber;
-    }
+    if (current) {
+      if (!ifMatches(ifMatch, current)) {
+        throw preconditionFailed(current);
+      }
 
-    if (body.additionalNotes !== undefined) {
-      updateData.additionalNotes = body.additionalNotes;
-    }
-
-    // Check if any fields were provided
-    if (Object.keys(updateData).length === 0) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: "VALIDATION_ERROR",
-            message: "No fields provided for update",
-          },
-        },
-        { status: 400 }
-      );
+      checkRequestEdit(current, body);
     }
 
     // Update blood request in database
+    // Deleted requests can't be edited; P2025 below reports them as missing
     const bloodRequest = await prisma.bloodRequest.update({
-      where: { id: params.id },
-      data: updateData,
+      where: {
+        id: id,
+        deletedAt: null,
+        // Fails if the request was approved or had units issued after the
+        // edit was checked
+        ...(current && {
+          status: current.status,
+          quantityFulfilled: current.quantityFulfilled,
+        }),
+        // Also fails if someone else saved after the If-Match check
+        ...(current && ifMatch !== null && { updatedAt: current.updatedAt }),
+      },
+      data: body,
       include: {
         requester: {
           select: {
@@ -259,6 +352,13 @@ export async function PUT(
             email: true,
           },
         },
+        hospital: {
+          select: {
+            id: true,
+            name: true,
+            city: true,
+          },
+        },
         bloodBank: {
           select: {
             id: true,
@@ -271,16 +371,54 @@ export async function PUT(
     });
 
     // Return success response
-    return NextResponse.json({
-      success: true,
-      message: "Blood request updated successfully",
-      data: bloodRequest,
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Blood request updated successfully",
+        data: withSla(bloodRequest),
+      },
+      { headers: { ETag: etagFor(bloodRequest) } }
+    );
   } catch (error: any) {
-    console.error("Error updating blood request:", error);
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
 
     // Handle Prisma-specific errors
     if (error.code === "P2025") {
+      // Changed between the checks above and the update
+      const latest = await prisma.bloodRequest.findFirst({
+        where: { id: id, deletedAt: null },
+        include: bloodRequestInclude,
+      });
+
+      if (latest && ifMatch !== null) {
+        return apiErrorResponse(preconditionFailed(latest));
+      }
+
+      // Without If-Match, the edit is checked again against the latest
+      // version: one it no longer allows gets 409, otherwise it is retried
+      if (latest && body) {
+        const edit = body;
+
+        if (attemptsLeft > 1) {
+          return updateBloodRequest(
+            request,
+            id,
+            async () => edit,
+            attemptsLeft - 1
+          );
+        }
+
+        return apiErrorResponse(
+          new ApiError(
+            409,
+            "EDIT_CONFLICT",
+            "Blood request kept changing while it was being updated. Please try again."
+          )
+        );
+      }
+
       // Record not found
       return NextResponse.json(
         {
@@ -294,6 +432,8 @@ export async function PUT(
       );
     }
 
+    console.error("Error updating blood request:", error);
+
     // Generic server error
     return NextResponse.json(
       {
@@ -311,52 +451,58 @@ export async function PUT(
 /**
  * DELETE /api/blood-requests/[id]
  *
- * Deletes a blood request
+ * Soft-deletes a blood request: the row is kept with deletedAt/deletedBy
+ * set and an AuditLog entry is written. Deleted requests are hidden from
+ * lists and cannot be updated or transitioned. Admins can undo this with
+ * POST /api/blood-requests/[id]/restore.
  *
  * URL Parameters:
  * - id: Blood request UUID
  *
+ * Request Body:
+ * {
+ *   actorId: string (UUID of the user deleting the request)
+ *   reason?: string
+ * }
+ *
+ * Headers:
+ * - If-Match (optional): ETag from a previous GET
+ *
  * Response:
  * - 200 OK: Request deleted successfully
- * - 404 Not Found: Blood request doesn't exist
+ * - 400 Bad Request: Validation error
+ * - 404 Not Found: Blood request (or it is already deleted) or actor
+ *   doesn't exist
+ * - 412 Precondition Failed: If-Match is stale; details.current holds the
+ *   current version
  * - 500 Internal Server Error: Database or server error
- *
- * Note: In production, consider soft delete (setting deletedAt timestamp)
- * instead of hard delete to maintain audit trail
  */
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Delete blood request from database
-    await prisma.bloodRequest.delete({
-      where: { id: params.id },
+    const body = await parseBody(request, deleteSchema);
+
+    const deleted = await softDeleteBloodRequest(params.id, {
+      actorId: body.actorId,
+      reason: body.reason,
+      ifMatch: request.headers.get("If-Match"),
     });
 
     // Return success response
     return NextResponse.json({
       success: true,
       message: "Blood request deleted successfully",
+      data: deleted,
     });
-  } catch (error: any) {
-    console.error("Error deleting blood request:", error);
-
-    // Handle Prisma-specific errors
-    if (error.code === "P2025") {
-      // Record not found
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: "NOT_FOUND",
-            message: "Blood request not found",
-          },
-        },
-        { status: 404 }
-      );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
     }
 
+    console.error("Error deleting blood request:", error);
+
     // Generic server error
     return NextResponse.json(
       {
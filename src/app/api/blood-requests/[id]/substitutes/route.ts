@@ -0,0 +1,122 @@
+/**
+ * Blood Requests API - Compatible Substitutes
+ *
+ * Proposes compatible blood groups when the requested group is short:
+ * - GET /api/blood-requests/[id]/substitutes - Ranked compatible stock
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { findCompatibleStock, usableAfter } from "@/lib/allocation";
+
+/**
+ * GET /api/blood-requests/[id]/substitutes
+ *
+ * Lists every blood group the patient can safely receive, with the stock
+ * held by a blood bank. Options are ordered by preference: exact group,
+ * same ABO, same Rh, other compatible groups, O_NEGATIVE last. Only
+ * stock of the requested component counts, and plasma and cryo follow the
+ * plasma compatibility rules with AB_POSITIVE last.
+ * Sufficiency is measured against the units the request still needs, and
+ * only units with the shelf life the request's purpose calls for count.
+ *
+ * URL Parameters:
+ * - id: Blood request UUID
+ *
+ * Query Parameters:
+ * - bloodBankId: Blood bank to check (default: the request's assigned bank)
+ *
+ * Response:
+ * - 200 OK: Returns ranked options with available units
+ * - 404 Not Found: Blood request doesn't exist
+ * - 409 Conflict: Request has no blood bank assigned
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const bloodRequest = await prisma.bloodRequest.findFirst({
+      where: { id: params.id, deletedAt: null },
+      select: {
+        id: true,
+        bloodGroup: true,
+        component: true,
+        purpose: true,
+        quantityNeeded: true,
+        quantityFulfilled: true,
+        bloodBankId: true,
+      },
+    });
+
+    if (!bloodRequest) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Blood request not found",
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const bloodBankId =
+      searchParams.get("bloodBankId") ?? bloodRequest.bloodBankId;
+    const quantityRemaining =
+      bloodRequest.quantityNeeded - bloodRequest.quantityFulfilled;
+
+    if (!bloodBankId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "BLOOD_BANK_NOT_ASSIGNED",
+            message: "Blood request has no blood bank to fulfill it from",
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    const options = await findCompatibleStock(
+      prisma,
+      bloodBankId,
+      bloodRequest.bloodGroup,
+      bloodRequest.component,
+      quantityRemaining,
+      usableAfter(bloodRequest.purpose)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        requestId: bloodRequest.id,
+        bloodGroup: bloodRequest.bloodGroup,
+        component: bloodRequest.component,
+        quantityNeeded: bloodRequest.quantityNeeded,
+        quantityRemaining,
+        bloodBankId,
+        options,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching blood substitutes:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message:
+            "Failed to fetch compatible substitutes. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Blood Requests API - Activity Timeline
+ *
+ * Handles the merged history of a blood request:
+ * - GET /api/blood-requests/[id]/timeline - Creation, comments and audit entries
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { getTimeline } from "@/lib/request-comments";
+
+/**
+ * GET /api/blood-requests/[id]/timeline
+ *
+ * Returns everything that happened to the request in chronological order:
+ * CREATED, COMMENT, STATUS_CHANGE and other AUDIT entries (deletion,
+ * urgency escalation, overdue flags). Internal comments follow the same
+ * visibility rule as GET /comments.
+ *
+ * URL Parameters:
+ * - id: Blood request UUID
+ *
+ * Query Parameters:
+ * - actorId: UUID of the user viewing the timeline (omit to see public
+ *   comments only)
+ *
+ * Response:
+ * - 200 OK: Returns timeline entries, oldest first
+ * - 404 Not Found: Blood request or actor doesn't exist
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const timeline = await getTimeline(params.id, searchParams.get("actorId"));
+
+    return NextResponse.json({
+      success: true,
+      data: timeline,
+      count: timeline.length,
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error fetching timeline:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch timeline. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Blood Requests API - Bulk Actions
+ *
+ * Handles status actions on many requests at once:
+ * - POST /api/blood-requests/bulk - Approve, reject or cancel a list of requests
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { bulkTransition } from "@/lib/request-bulk";
+import { bulkTransitionSchema } from "@/lib/blood-request-schemas";
+import { parseBody } from "@/lib/validation";
+
+/**
+ * POST /api/blood-requests/bulk
+ *
+ * Applies one action to each listed request using the same state machine
+ * as the single-request action routes. Failures are reported per id and
+ * do not stop the rest of the batch.
+ *
+ * Request Body:
+ * {
+ *   actorId: string (UUID of the user performing the action)
+ *   action: "approve" | "reject" | "cancel"
+ *   ids: string[] (1-100 unique blood request UUIDs)
+ *   reason?: string (required for reject)
+ * }
+ *
+ * Response:
+ * - 200 OK: Returns a summary and one result per id, each with an outcome
+ *   of success, conflict, not_found or error
+ * - 400 Bad Request: Validation error
+ * - 404 Not Found: Actor doesn't exist (nothing is processed)
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseBody(request, bulkTransitionSchema);
+
+    const result = await bulkTransition(body.ids, body.action, {
+      actorId: body.actorId,
+      reason: body.reason,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `${result.summary.success} of ${result.summary.total} blood requests updated`,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error applying bulk action:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to apply bulk action. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
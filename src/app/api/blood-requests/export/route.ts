@@ -0,0 +1,102 @@
+/**
+ * Blood Requests API - Spreadsheet Export
+ *
+ * Handles downloads for auditors:
+ * - GET /api/blood-requests/export - Matching blood requests as CSV or XLSX
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { requireAdmin } from "@/lib/actors";
+import {
+  buildBloodRequestWhere,
+  parseBloodRequestQuery,
+} from "@/lib/blood-request-query";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  ExportFormat,
+  checkExportSize,
+  exportBloodRequests,
+} from "@/lib/blood-request-export";
+
+/**
+ * GET /api/blood-requests/export
+ *
+ * Streams every blood request matching the filters as a file download.
+ * Rows are read and written in batches, so large ranges are fine. XLSX is
+ * limited to the 1,048,575 data rows a sheet holds; CSV has no limit.
+ *
+ * Query Parameters:
+ * - format: csv (default) or xlsx
+ * - Filters and sort as GET /api/blood-requests (status, urgency,
+ *   bloodGroup, fromDate/toDate, requiredFrom/requiredTo, requesterId,
+ *   hospitalId, bloodBankId, sort, order, includeDeleted + actorId).
+ *   page and limit are ignored; every matching row is exported.
+ *
+ * Response:
+ * - 200 OK: File download (Content-Disposition: attachment)
+ * - 400 Bad Request: Invalid format, filter or sort value
+ * - 403 Forbidden: includeDeleted requested by a non-admin
+ * - 413 Payload Too Large: XLSX requested for more rows than a sheet holds
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const format = searchParams.get("format") || "csv";
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      throw new ApiError(400, "VALIDATION_ERROR", "Invalid format value", {
+        field: "format",
+        value: format,
+        allowed: EXPORT_FORMATS,
+      });
+    }
+
+    const { filter, sort, order } = parseBloodRequestQuery(searchParams);
+
+    // Deleted requests are an admin-only view
+    if (filter.includeDeleted) {
+      await requireAdmin(searchParams.get("actorId"));
+    }
+
+    const where = buildBloodRequestWhere(filter);
+    await checkExportSize(format as ExportFormat, where);
+
+    const stream = exportBloodRequests(
+      format as ExportFormat,
+      where,
+      sort,
+      order
+    );
+    const filename = `blood-requests-${new Date()
+      .toISOString()
+      .slice(0, 10)}.${format}`;
+
+    return new NextResponse(stream, {
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[format as ExportFormat],
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error exporting blood requests:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to export blood requests. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Blood Requests API - Triage Queue
+ *
+ * Handles the prioritised worklist for blood bank staff:
+ * - GET /api/blood-requests/queue - Open requests ranked by triage score
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { parsePositiveInt } from "@/lib/blood-request-query";
+import { scoreRequest, triageScoreSql } from "@/lib/triage";
+import { withSlaAll } from "@/lib/request-sla";
+import { Prisma, RequestStatus } from "@prisma/client";
+
+const MAX_QUEUE_LIMIT = 200;
+
+const queueSelect = {
+  id: true,
+  bloodGroup: true,
+  component: true,
+  quantityNeeded: true,
+  quantityFulfilled: true,
+  urgency: true,
+  status: true,
+  patientName: true,
+  requiredBy: true,
+  approvedAt: true,
+  fulfilledAt: true,
+  createdAt: true,
+  hospital: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  bloodBank: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.BloodRequestSelect;
+
+/**
+ * GET /api/blood-requests/queue
+ *
+ * Ranks PENDING and APPROVED blood requests by a triage score combining
+ * urgency, time left until requiredBy, blood group rarity and current
+ * stock. Each item explains how its score was built and carries its SLA
+ * status.
+ *
+ * Query Parameters:
+ * - limit: Maximum items to return (default: 50, max: 200)
+ * - bloodBankId: Only requests assigned to this blood bank
+ *
+ * Stock counts AVAILABLE, unexpired blood units of the requested group
+ * and component at the assigned blood bank, or across all active blood
+ * banks when no bank is assigned.
+ *
+ * The score is computed, ordered and limited in the database (see
+ * triageScoreSql); only the returned page is loaded and explained.
+ *
+ * Response:
+ * - 200 OK: Returns requests ordered by score (highest first); count is
+ *   the number of open requests
+ * - 400 Bad Request: limit is not a whole number from 1 to 200
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = parsePositiveInt(searchParams, "limit", 50, MAX_QUEUE_LIMIT);
+    const bloodBankId = searchParams.get("bloodBankId");
+
+    const now = new Date();
+    const where = {
+      status: { in: [RequestStatus.PENDING, RequestStatus.APPROVED] },
+      deletedAt: null,
+      ...(bloodBankId && { bloodBankId }),
+    };
+
+    // AVAILABLE, unexpired units at the assigned bank, or at any active
+    // bank when none is assigned
+    const stock = Prisma.sql`stock."available"`;
+    const bankFilter = bloodBankId
+      ? Prisma.sql`AND r."bloodBankId" = ${bloodBankId}`
+      : Prisma.empty;
+
+    const [ranked, count] = await Promise.all([
+      prisma.$queryRaw<{ id: string; availableStock: number }[]>`
+        SELECT r."id", ${stock} AS "availableStock"
+        FROM "blood_requests" r
+        CROSS JOIN LATERAL (
+          SELECT COUNT(*)::integer AS "available"
+          FROM "blood_units" u
+          JOIN "blood_banks" b ON b."id" = u."bloodBankId"
+          WHERE u."bloodGroup" = r."bloodGroup"
+            AND u."component" = r."component"
+            AND u."status" = 'AVAILABLE'
+            AND u."expiresAt" > ${now}
+            AND b."isActive"
+            AND (r."bloodBankId" IS NULL OR u."bloodBankId" = r."bloodBankId")
+        ) stock
+        WHERE r."status" IN ('PENDING', 'APPROVED')
+          AND r."deletedAt" IS NULL
+          ${bankFilter}
+        ORDER BY ${triageScoreSql(stock, now)} DESC,
+          r."requiredBy", r."createdAt", r."id"
+        LIMIT ${limit}
+      `,
+      prisma.bloodRequest.count({ where }),
+    ]);
+
+    const rows = await prisma.bloodRequest.findMany({
+      where: { id: { in: ranked.map((item) => item.id) } },
+      select: queueSelect,
+    });
+    const byId = new Map(rows.map((row) => [row.id, row]));
+
+    // Keep the database order; a request removed in between is dropped
+    const requests = ranked.flatMap(({ id }) => byId.get(id) ?? []);
+    const stockById = new Map(
+      ranked.map((item) => [item.id, item.availableStock])
+    );
+
+    const queue = withSlaAll(requests, now).map((item) => ({
+      ...item,
+      triage: scoreRequest(
+        {
+          urgency: item.urgency,
+          requiredBy: item.requiredBy,
+          bloodGroup: item.bloodGroup,
+          quantityRemaining: item.quantityNeeded - item.quantityFulfilled,
+          availableStock: stockById.get(item.id) ?? 0,
+        },
+        now
+      ),
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: queue,
+      count,
+      generatedAt: now,
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error building blood request queue:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message:
+            "Failed to build blood request queue. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -8,7 +8,73 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { BloodGroup, RequestStatus } from "@prisma/client";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { requireAdmin } from "@/lib/actors";
+import {
+  cursorWhere,
+  decodeCursor,
+  encodeCursor,
+  keysetOrderBy,
+} from "@/lib/pagination";
+import {
+  buildBloodRequestWhere,
+  parseBloodRequestQuery,
+} from "@/lib/blood-request-query";
+import {
+  BloodRequestCreateBody,
+  bloodRequestCreateSchema,
+} from "@/lib/blood-request-schemas";
+import { withIdempotency } from "@/lib/idempotency";
+import { withSla, withSlaAll } from "@/lib/request-sla";
+import { parseBody } from "@/lib/validation";
+import { Prisma, RequestStatus } from "@prisma/client";
+
+// Fields returned for each blood request in the list
+const listSelect = {
+  id: true,
+  bloodGroup: true,
+  component: true,
+  quantityNeeded: true,
+  status: true,
+  urgency: true,
+  patientName: true,
+  patientAge: true,
+  purpose: true,
+  requiredBy: true,
+  quantityFulfilled: true,
+  approvedAt: true,
+  fulfilledAt: true,
+  overdueFlaggedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+  // Include nested relations with selected fields
+  requester: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      phone: true,
+    },
+  },
+  hospital: {
+    select: {
+      id: true,
+      name: true,
+      city: true,
+    },
+  },
+  bloodBank: {
+    select: {
+      id: true,
+      name: true,
+      city: true,
+      state: true,
+      phone: true,
+    },
+  },
+} satisfies Prisma.BloodRequestSelect;
 
 /**
  * GET /api/blood-requests
@@ -17,34 +83,81 @@ import { BloodGroup, RequestStatus } from "@prisma/client";
  *
  * Query Parameters:
  * - page: Page number (default: 1)
- * - limit: Items per page (default: 20)
+ * - limit: Items per page (default: 20, max: 100)
+ * - cursor: Switches to cursor pagination. Pass an empty value for the
+ *   first page, then the nextCursor from the previous response
  * - status: Filter by status (PENDING, APPROVED, REJECTED, FULFILLED, CANCELLED)
  * - urgency: Filter by urgency (NORMAL, URGENT, CRITICAL)
  * - bloodGroup: Filter by blood group (A_POSITIVE, B_POSITIVE, etc.)
+ * - fromDate / toDate: createdAt window (ISO date, inclusive; a date-only
+ *   toDate covers that whole day)
+ * - requiredFrom / requiredTo: requiredBy window (ISO date)
+ * - requesterId, hospitalId, bloodBankId: Filter by related entity
+ * - sort: createdAt (default), updatedAt, requiredBy, quantityNeeded
+ * - order: asc | desc (default: desc)
+ * - includeDeleted: true to include soft-deleted requests (admin only,
+ *   requires actorId of an ADMIN user)
+ *
+ * status, urgency and bloodGroup accept comma-separated lists
+ * (e.g. status=PENDING,APPROVED).
+ *
+ * Results use id as a tie-break so the order is stable. Cursor mode skips
+ * the total count and does not skip or repeat rows while new requests
+ * arrive; page mode is kept for existing clients.
  *
  * Response:
- * - 200 OK: Returns array of blood requests with pagination metadata
+ * - 200 OK: Returns array of blood requests with pagination metadata.
+ *   Each request includes its SLA status (see src/lib/request-sla.ts)
+ * - 400 Bad Request: Invalid filter, sort or cursor value
+ * - 403 Forbidden: includeDeleted requested by a non-admin
  * - 500 Internal Server Error: Database or server error
  */
 export async function GET(request: NextRequest) {
   try {
-    // Extract query parameters from URL
+    // Extract and validate query parameters from URL
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get("page") || "1");
-    const limit = parseInt(searchParams.get("limit") || "20");
-    const status = searchParams.get("status") as RequestStatus | null;
-    const urgency = searchParams.get("urgency");
-    const bloodGroup = searchParams.get("bloodGroup") as BloodGroup | null;
+    const { filter, sort, order, page, limit } =
+      parseBloodRequestQuery(searchParams);
+
+    // Deleted requests are an admin-only view
+    if (filter.includeDeleted) {
+      await requireAdmin(searchParams.get("actorId"));
+    }
+
+    // Build where clause based on filters
+    const where = buildBloodRequestWhere(filter);
+    const orderBy = keysetOrderBy(sort, order);
+
+    // Cursor mode: keyset pagination on (sort field, id)
+    if (searchParams.has("cursor")) {
+      const cursor = decodeCursor(searchParams.get("cursor"), sort);
+
+      // Fetch one extra row to know whether another page exists
+      const rows = await prisma.bloodRequest.findMany({
+        where: { AND: [where, cursorWhere(sort, order, cursor)] },
+        take: limit + 1,
+        select: listSelect,
+        orderBy,
+      });
+
+      const hasNext = rows.length > limit;
+      const requests = hasNext ? rows.slice(0, limit) : rows;
+      const last = requests[requests.length - 1];
+
+      return NextResponse.json({
+        success: true,
+        data: withSlaAll(requests),
+        pagination: {
+          limit,
+          nextCursor: hasNext ? encodeCursor(sort, last) : null,
+          hasNext,
+        },
+      });
+    }
 
     // Calculate pagination offset
     const skip = (page - 1) * limit;
 
-    // Build dynamic where clause based on filters
-    const where: any = {};
-    if (status) where.status = status;
-    if (urgency) where.urgency = urgency;
-    if (bloodGroup) where.bloodGroup = bloodGroup;
-
     // Execute parallel queries for data and count (performance optimization)
     const [requests, total] = await Promise.all([
       prisma.bloodRequest.findMany({
@@ -52,39 +165,8 @@ export async function GET(request: NextRequest) {
         skip,
         take: limit,
         // Select specific fields to avoid over-fetching
-        select: {
-          id: true,
-          bloodGroup: true,
-          quantityNeeded: true,
-          status: true,
-          urgency: true,
-          patientName: true,
-          patientAge: true,
-          purpose: true,
-          requiredBy: true,
-          createdAt: true,
-          // Include nested relations with selected fields
-          requester: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-              phoneNumber: true,
-            },
-          },
-          bloodBank: {
-            select: {
-              id: true,
-              name: true,
-              city: true,
-              state: true,
-              phoneNumber: true,
-            },
-          },
-        },
-        // Sort by newest first
-        orderBy: { createdAt: "desc" },
+        select: listSelect,
+        orderBy,
       }),
       // Count total matching records for pagination
       prisma.bloodRequest.count({ where }),
@@ -93,7 +175,7 @@ export async function GET(request: NextRequest) {
     // Return success response with data and pagination metadata
     return NextResponse.json({
       success: true,
-      data: requests,
+      data: withSlaAll(requests),
       pagination: {
         page,
         limit,
@@ -104,6 +186,10 @@ export async function GET(request: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
     // Log error for debugging (in production, use proper logging service)
     console.error("Error fetching blood requests:", error);
 
@@ -126,201 +212,192 @@ export async function GET(request: NextRequest) {
  *
  * Creates a new blood request
  *
- * Request Body:
+ * Request Body (validated by bloodRequestCreateSchema):
  * {
  *   requesterId: string (UUID)
  *   bloodBankId: string (UUID)
  *   bloodGroup: BloodGroup enum
- *   quantityNeeded: number (units)
+ *   component?: BloodComponent enum (default: WHOLE_BLOOD)
+ *   quantityNeeded: number (whole units, > 0)
  *   patientName: string
- *   patientAge: number
+ *   patientAge: number (0-150)
  *   purpose: string
  *   requiredBy: Date (ISO string)
- *   urgency: "NORMAL" | "URGENT" | "CRITICAL"
+ *   urgency?: "NORMAL" | "URGENT" | "CRITICAL" (default: NORMAL)
+ *   patientGender?: Gender enum
+ *   medicalNotes?: string
+ *   doctorName?: string
+ *   doctorContact?: string
+ *   hospitalId?: string (UUID)
  * }
  *
+ * Unknown fields are rejected rather than silently dropped.
+ *
+ * Headers:
+ * - Idempotency-Key (optional): Unique key per logical request. Retrying
+ *   with the same key and body within the replay window returns the
+ *   original 201 response (with Idempotent-Replayed: true) instead of
+ *   creating a duplicate.
+ *
  * Response:
  * - 201 Created: Request created successfully
- * - 400 Bad Request: Validation error or missing required fields
- * - 404 Not Found: Requester or blood bank doesn't exist
+ * - 400 Bad Request: Validation error, with one entry per invalid or
+ *   unknown field
+ * - 404 Not Found: Requester, blood bank or hospital doesn't exist
+ * - 409 Conflict: A request with this Idempotency-Key is still running
+ * - 422 Unprocessable Entity: Idempotency-Key reused with a different body
  * - 500 Internal Server Error: Database or server error
  */
 export async function POST(request: NextRequest) {
   try {
-    // Parse JSON body
-    const body = await request.json();
+    // Parse and validate JSON body
+    const body = await parseBody(request, bloodRequestCreateSchema);
 
-    // Validate required fields
-    const requiredFields = [
-      "requesterId",
-      "bloodBankId",
-      "bloodGroup",
-      "quantityNeeded",
-      "patientName",
-      "patientAge",
-      "purpose",
-      "requiredBy",
-    ];
+    // A retry with the same Idempotency-Key replays the original response
+    return await withIdempotency(
+      request,
+      "POST /api/blood-requests",
+      body,
+      () => createBloodRequest(body)
+    );
+  } catch (error: any) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
 
-    const missingFields = requiredFields.filter((field) => !body[field]);
+    // Log error for debugging
+    console.error("Error creating blood request:", error);
 
-    if (missingFields.length > 0) {
+    // Handle Prisma-specific errors
+    if (error.code === "P2003") {
+      // Foreign key constraint violation
       return NextResponse.json(
         {
           success: false,
           error: {
-            code: "VALIDATION_ERROR",
-            message: "Missing required fields",
-            details: { missingFields },
+            code: "INVALID_REFERENCE",
+            message: "Invalid requester, blood bank or hospital ID",
           },
         },
         { status: 400 }
       );
     }
 
-    // Validate quantity is positive
-    if (body.quantityNeeded <= 0) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: "VALIDATION_ERROR",
-            message: "Quantity needed must be greater than 0",
-          },
+    // Generic server error
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create blood request. Please try again later.",
         },
-        { status: 400 }
-      );
-    }
+      },
+      { status: 500 }
+    );
+  }
+}
 
-    // Validate patient age is reasonable
-    if (body.patientAge < 0 || body.patientAge > 150) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: "VALIDATION_ERROR",
-            message: "Patient age must be between 0 and 150",
-          },
+/**
+ * Checks references and creates the blood request for POST
+ */
+async function createBloodRequest(body: BloodRequestCreateBody) {
+  // Verify requester exists
+  const requester = await prisma.user.findUnique({
+    where: { id: body.requesterId },
+  });
+
+  if (!requester) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Requester not found",
         },
-        { status: 400 }
-      );
-    }
+      },
+      { status: 404 }
+    );
+  }
 
-    // Verify requester exists
-    const requester = await prisma.user.findUnique({
-      where: { id: body.requesterId },
-    });
+  // Verify blood bank exists
+  const bloodBank = await prisma.bloodBank.findUnique({
+    where: { id: body.bloodBankId },
+  });
 
-    if (!requester) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: "NOT_FOUND",
-            message: "Requester not found",
-          },
+  if (!bloodBank) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Blood bank not found",
         },
-        { status: 404 }
-      );
-    }
+      },
+      { status: 404 }
+    );
+  }
 
-    // Verify blood bank exists
-    const bloodBank = await prisma.bloodBank.findUnique({
-      where: { id: body.bloodBankId },
+  // Verify hospital exists when the request is linked to one
+  if (body.hospitalId) {
+    const hospital = await prisma.hospital.findUnique({
+      where: { id: body.hospitalId },
     });
 
-    if (!bloodBank) {
+    if (!hospital) {
       return NextResponse.json(
         {
           success: false,
           error: {
             code: "NOT_FOUND",
-            message: "Blood bank not found",
+            message: "Hospital not found",
           },
         },
         { status: 404 }
       );
     }
+  }
 
-    // Create blood request in database
-    const bloodRequest = await prisma.bloodRequest.create({
-      data: {
-        requesterId: body.requesterId,
-        bloodBankId: body.bloodBankId,
-        bloodGroup: body.bloodGroup,
-        quantityNeeded: body.quantityNeeded,
-        patientName: body.patientName,
-        patientAge: body.patientAge,
-        purpose: body.purpose,
-        requiredBy: new Date(body.requiredBy),
-        urgency: body.urgency || "NORMAL",
-        status: RequestStatus.PENDING, // Default status for new requests
-        // Optional fields
-        patientGender: body.patientGender,
-        hospitalName: body.hospitalName,
-        doctorName: body.doctorName,
-        contactNumber: body.contactNumber,
-        additionalNotes: body.additionalNotes,
-      },
-      // Include related data in response
-      include: {
-        requester: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
-        },
-        bloodBank: {
-          select: {
-            id: true,
-            name: true,
-            city: true,
-            state: true,
-          },
+  // Create blood request in database
+  const bloodRequest = await prisma.bloodRequest.create({
+    data: {
+      ...body,
+      status: RequestStatus.PENDING, // Default status for new requests
+    },
+    // Include related data in response
+    include: {
+      requester: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
         },
       },
-    });
-
-    // Return success response with 201 Created status
-    return NextResponse.json(
-      {
-        success: true,
-        message: "Blood request created successfully",
-        data: bloodRequest,
-      },
-      { status: 201 }
-    );
-  } catch (error: any) {
-    // Log error for debugging
-    console.error("Error creating blood request:", error);
-
-    // Handle Prisma-specific errors
-    if (error.code === "P2003") {
-      // Foreign key constraint violation
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: "INVALID_REFERENCE",
-            message: "Invalid requester or blood bank ID",
-          },
+      hospital: {
+        select: {
+          id: true,
+          name: true,
+          city: true,
         },
-        { status: 400 }
-      );
-    }
-
-    // Generic server error
-    return NextResponse.json(
-      {
-        success: false,
-        error: {
-          code: "INTERNAL_ERROR",
-          message: "Failed to create blood request. Please try again later.",
+      },
+      bloodBank: {
+        select: {
+          id: true,
+          name: true,
+          city: true,
+          state: true,
         },
       },
-      { status: 500 }
-    );
-  }
+    },
+  });
+
+  // Return success response with 201 Created status
+  return NextResponse.json(
+    {
+      success: true,
+      message: "Blood request created successfully",
+      data: withSla(bloodRequest),
+    },
+    { status: 201 }
+  );
 }
@@ -0,0 +1,83 @@
+/**
+ * Donations API - Component Separation
+ *
+ * Handles processing of collected whole blood:
+ * - POST /api/donations/[id]/separate - Split a donation into component units
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { separateDonation } from "@/lib/blood-units";
+import { separationSchema } from "@/lib/blood-unit-schemas";
+import { parseBody } from "@/lib/validation";
+
+/**
+ * POST /api/donations/[id]/separate
+ *
+ * Separates the donation's whole blood unit into component units in one
+ * transaction. The whole blood unit becomes SEPARATED and leaves whole
+ * blood stock; each component is added to the same blood bank's stock for
+ * that component, with its own serial number and expiry:
+ *
+ * - RED_CELLS (-RBC): 42 days from collection
+ * - PLATELETS (-PLT): 5 days from collection
+ * - PLASMA (-FFP): 365 days from collection (frozen)
+ * - CRYO (-CRYO): 365 days from collection (frozen)
+ *
+ * URL Parameters:
+ * - id: Donation UUID
+ *
+ * Request Body:
+ * {
+ *   actorId: string (UUID of the blood bank staff member or admin)
+ *   components: ("RED_CELLS" | "PLATELETS" | "PLASMA" | "CRYO")[]
+ *     (at least one, no repeats)
+ * }
+ *
+ * Response:
+ * - 201 Created: Returns the separated unit and the new component units
+ * - 400 Bad Request: Validation error
+ * - 403 Forbidden: Actor is not blood bank staff or an admin
+ * - 404 Not Found: Actor doesn't exist, or the donation has no whole
+ *   blood unit
+ * - 409 Conflict: The whole blood unit is no longer available
+ *   (UNIT_NOT_AVAILABLE), or a component's shelf life has already run out
+ *   (COMPONENT_EXPIRED)
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await parseBody(request, separationSchema);
+
+    const separation = await separateDonation(params.id, body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Donation separated into ${separation.components.length} component units`,
+        data: separation,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error separating donation:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to separate donation. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Internal API - Inventory Alert Sweep
+ *
+ * Called by a scheduler, not by users:
+ * - POST /api/internal/blood-inventory/alerts - Raise and resolve stock alerts
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { requireInternalToken } from "@/lib/internal-auth";
+import { sweepInventoryAlerts } from "@/lib/inventory-alerts";
+
+/**
+ * POST /api/internal/blood-inventory/alerts
+ *
+ * Runs the alert sweep: every inventory row is compared with its
+ * minimumQuantity and maximumQuantity. Rows that cross a threshold get a
+ * LOW, CRITICAL or OVER_CAPACITY alert (the blood bank's manager is
+ * notified), and open alerts on rows back within thresholds are resolved.
+ * Stock changes already do this as they happen; the sweep catches
+ * threshold edits and changes made outside the app.
+ *
+ * Headers:
+ * - X-Internal-Token: Value of INTERNAL_API_TOKEN
+ *
+ * Query Parameters:
+ * - dryRun: true to report what would change without writing
+ *
+ * Response:
+ * - 200 OK: Returns counts and the alert changes per inventory row
+ * - 401 Unauthorized: Missing or invalid internal token
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    requireInternalToken(request);
+
+    const { searchParams } = new URL(request.url);
+    const result = await sweepInventoryAlerts({
+      dryRun: searchParams.get("dryRun") === "true",
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: result.dryRun
+        ? `${result.raised} alerts would be raised, ${result.resolved} resolved`
+        : `${result.raised} alerts raised, ${result.resolved} resolved`,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error sweeping inventory alerts:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to check inventory alerts. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Internal API - Urgency Escalation Sweep
+ *
+ * Called by a scheduler, not by users:
+ * - POST /api/internal/blood-requests/escalate - Raise urgency as requiredBy approaches
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { requireInternalToken } from "@/lib/internal-auth";
+import { escalateRequestUrgency } from "@/lib/urgency-escalation";
+
+/**
+ * POST /api/internal/blood-requests/escalate
+ *
+ * Runs the escalation sweep: open requests close to requiredBy have their
+ * urgency raised according to URGENCY_ESCALATION_RULES. Each escalation is
+ * audited and the assigned blood bank's manager is notified.
+ *
+ * Headers:
+ * - X-Internal-Token: Value of INTERNAL_API_TOKEN
+ *
+ * Query Parameters:
+ * - dryRun: true to report what would change without writing
+ *
+ * Response:
+ * - 200 OK: Returns the escalated requests with old and new urgency
+ * - 401 Unauthorized: Missing or invalid internal token
+ * - 500 Internal Server Error: Database error or invalid escalation rules
+ */
+export async function POST(request: NextRequest) {
+  try {
+    requireInternalToken(request);
+
+    const { searchParams } = new URL(request.url);
+    const result = await escalateRequestUrgency({
+      dryRun: searchParams.get("dryRun") === "true",
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: result.dryRun
+        ? `${result.escalated} requests would be escalated`
+        : `${result.escalated} requests escalated`,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error escalating blood requests:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to escalate blood requests. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Internal API - Blood Request Expiry Sweep
+ *
+ * Called by a scheduler, not by users:
+ * - POST /api/internal/blood-requests/expire - Cancel or flag overdue requests
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, apiErrorResponse } from "@/lib/errors";
+import { requireInternalToken } from "@/lib/internal-auth";
+import { expireOverdueRequests } from "@/lib/request-expiry";
+
+/**
+ * POST /api/internal/blood-requests/expire
+ *
+ * Runs the expiry sweep: open requests past requiredBy (plus
+ * REQUEST_EXPIRY_GRACE_HOURS) are cancelled with a system reason, or
+ * flagged when they are already partly fulfilled. Requesters are notified.
+ *
+ * Headers:
+ * - X-Internal-Token: Value of INTERNAL_API_TOKEN
+ *
+ * Query Parameters:
+ * - dryRun: true to report what would change without writing
+ *
+ * Response:
+ * - 200 OK: Returns counts and IDs of cancelled and flagged requests
+ * - 401 Unauthorized: Missing or invalid internal token
+ * - 500 Internal Server Error: Database or server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    requireInternalToken(request);
+
+    const { searchParams } = new URL(request.url);
+    const result = await expireOverdueRequests({
+      dryRun: searchParams.get("dryRun") === "true",
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: result.dryRun
+        ? `${result.cancelled} requests would be cancelled and ${result.flagged} flagged`
+        : `${result.cancelled} requests cancelled and ${result.flagged} flagged`,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error("Error expiring blood requests:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to expire blood requests. Please try again later.",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,257 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BloodComponent, BloodGroup } from "@prisma/client";
+import { ApiError } from "@/lib/errors";
+import {
+  parseShelfLifeRules,
+  planAllocations,
+  rankCompatibleGroups,
+  usableAfter,
+} from "@/lib/allocation";
+
+const {
+  O_NEGATIVE,
+  O_POSITIVE,
+  A_NEGATIVE,
+  A_POSITIVE,
+  B_NEGATIVE,
+  B_POSITIVE,
+  AB_NEGATIVE,
+  AB_POSITIVE,
+} = BloodGroup;
+
+const { RED_CELLS } = BloodComponent;
+
+// Matches an ApiError by status and code
+function apiError(status: number, code: string) {
+  return (error: unknown) =>
+    error instanceof ApiError && error.status === status && error.code === code;
+}
+
+describe("rankCompatibleGroups", () => {
+  it("ranks exact, same ABO, same Rh, then O_NEGATIVE last", () => {
+    assert.deepEqual(rankCompatibleGroups(A_POSITIVE, RED_CELLS), [
+      A_POSITIVE,
+      A_NEGATIVE,
+      O_POSITIVE,
+      O_NEGATIVE,
+    ]);
+  });
+
+  it("prefers non-O groups within a tier for the universal recipient", () => {
+    assert.deepEqual(rankCompatibleGroups(AB_POSITIVE, RED_CELLS), [
+      AB_POSITIVE,
+      AB_NEGATIVE,
+      A_POSITIVE,
+      B_POSITIVE,
+      O_POSITIVE,
+      A_NEGATIVE,
+      B_NEGATIVE,
+      O_NEGATIVE,
+    ]);
+  });
+
+  it("only offers O_NEGATIVE to an O_NEGATIVE patient", () => {
+    assert.deepEqual(rankCompatibleGroups(O_NEGATIVE, RED_CELLS), [O_NEGATIVE]);
+  });
+
+  it("never offers Rh-positive blood to Rh-negative patients", () => {
+    for (const recipient of [A_NEGATIVE, B_NEGATIVE, AB_NEGATIVE]) {
+      assert.ok(
+        rankCompatibleGroups(recipient, RED_CELLS).every((group) =>
+          group.endsWith("_NEGATIVE")
+        )
+      );
+    }
+  });
+
+  it("treats platelets like red cells", () => {
+    assert.deepEqual(
+      rankCompatibleGroups(A_POSITIVE, BloodComponent.PLATELETS),
+      rankCompatibleGroups(A_POSITIVE, RED_CELLS)
+    );
+  });
+
+  it("keeps whole blood ABO-identical with the red cell Rh rule", () => {
+    const { WHOLE_BLOOD } = BloodComponent;
+
+    assert.deepEqual(rankCompatibleGroups(A_POSITIVE, WHOLE_BLOOD), [
+      A_POSITIVE,
+      A_NEGATIVE,
+    ]);
+    assert.deepEqual(rankCompatibleGroups(AB_NEGATIVE, WHOLE_BLOOD), [
+      AB_NEGATIVE,
+    ]);
+    assert.deepEqual(rankCompatibleGroups(O_POSITIVE, WHOLE_BLOOD), [
+      O_POSITIVE,
+      O_NEGATIVE,
+    ]);
+  });
+
+  it("reverses plasma: O patients take any group, AB_POSITIVE kept last", () => {
+    assert.deepEqual(rankCompatibleGroups(O_NEGATIVE, BloodComponent.PLASMA), [
+      O_NEGATIVE,
+      O_POSITIVE,
+      A_NEGATIVE,
+      B_NEGATIVE,
+      AB_NEGATIVE,
+      A_POSITIVE,
+      B_POSITIVE,
+      AB_POSITIVE,
+    ]);
+  });
+
+  it("only offers AB plasma to AB patients", () => {
+    assert.deepEqual(rankCompatibleGroups(AB_POSITIVE, BloodComponent.PLASMA), [
+      AB_POSITIVE,
+    ]);
+    assert.deepEqual(rankCompatibleGroups(AB_NEGATIVE, BloodComponent.CRYO), [
+      AB_NEGATIVE,
+      AB_POSITIVE,
+    ]);
+  });
+
+  it("never offers O plasma to non-O patients", () => {
+    for (const component of [BloodComponent.PLASMA, BloodComponent.CRYO]) {
+      const ranked = rankCompatibleGroups(A_NEGATIVE, component);
+
+      assert.deepEqual(ranked, [
+        A_NEGATIVE,
+        A_POSITIVE,
+        AB_NEGATIVE,
+        AB_POSITIVE,
+      ]);
+    }
+  });
+});
+
+describe("planAllocations", () => {
+  it("issues the remaining units from the assigned bank by default", () => {
+    assert.deepEqual(
+      planAllocations(
+        { bloodBankId: "bank-1", quantityRemaining: 3 },
+        { issuedBloodGroup: O_NEGATIVE }
+      ),
+      [{ bloodBankId: "bank-1", quantity: 3, issuedBloodGroup: O_NEGATIVE }]
+    );
+  });
+
+  it("refuses to default when no bank is assigned", () => {
+    assert.throws(
+      () => planAllocations({ bloodBankId: null, quantityRemaining: 2 }, {}),
+      apiError(409, "BLOOD_BANK_NOT_ASSIGNED")
+    );
+  });
+
+  it("refuses when nothing is left to fulfill", () => {
+    for (const quantityRemaining of [0, -2]) {
+      assert.throws(
+        () => planAllocations({ bloodBankId: "bank-1", quantityRemaining }, {}),
+        apiError(409, "NOTHING_TO_FULFILL")
+      );
+      assert.throws(
+        () =>
+          planAllocations(
+            { bloodBankId: "bank-1", quantityRemaining },
+            { allocations: [{ bloodBankId: "bank-2", quantity: 1 }] }
+          ),
+        apiError(409, "NOTHING_TO_FULFILL")
+      );
+    }
+  });
+
+  it("refuses allocations above the remaining quantity", () => {
+    assert.throws(
+      () =>
+        planAllocations(
+          { bloodBankId: null, quantityRemaining: 3 },
+          {
+            allocations: [
+              { bloodBankId: "bank-1", quantity: 2 },
+              { bloodBankId: "bank-2", quantity: 2 },
+            ],
+          }
+        ),
+      apiError(400, "OVER_ALLOCATION")
+    );
+  });
+
+  it("sorts split allocations by bank without changing the input", () => {
+    const allocations = [
+      { bloodBankId: "bank-b", quantity: 1 },
+      { bloodBankId: "bank-a", quantity: 2 },
+    ];
+
+    const plan = planAllocations(
+      { bloodBankId: null, quantityRemaining: 3 },
+      { allocations }
+    );
+
+    assert.deepEqual(
+      plan.map((item) => item.bloodBankId),
+      ["bank-a", "bank-b"]
+    );
+    assert.equal(allocations[0].bloodBankId, "bank-b");
+  });
+});
+
+describe("parseShelfLifeRules", () => {
+  it("parses KEYWORD:DAYS rules case-insensitively", () => {
+    assert.deepEqual(
+      parseShelfLifeRules("Neonatal:5, exchange transfusion:7"),
+      [
+        { keyword: "neonatal", minDays: 5 },
+        { keyword: "exchange transfusion", minDays: 7 },
+      ]
+    );
+  });
+
+  it("returns no rules when unset", () => {
+    assert.deepEqual(parseShelfLifeRules(null), []);
+  });
+
+  it("rejects malformed rules", () => {
+    for (const spec of ["neonatal", ":5", "neonatal:-1", "neonatal:soon"]) {
+      assert.throws(
+        () => parseShelfLifeRules(spec),
+        /Invalid unit shelf life rule/
+      );
+    }
+  });
+});
+
+describe("usableAfter", () => {
+  const now = new Date("2026-10-19T12:00:00.000Z");
+  const daysLater = (days: number) =>
+    new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+  it("applies the strictest matching purpose rule", () => {
+    process.env.UNIT_MIN_SHELF_LIFE_BY_PURPOSE =
+      "neonatal:5,exchange transfusion:7";
+
+    try {
+      assert.deepEqual(
+        usableAfter("Neonatal exchange transfusion", undefined, now),
+        daysLater(7)
+      );
+      assert.deepEqual(
+        usableAfter("Neonatal top-up", undefined, now),
+        daysLater(5)
+      );
+      assert.deepEqual(usableAfter("Hip replacement", undefined, now), now);
+    } finally {
+      delete process.env.UNIT_MIN_SHELF_LIFE_BY_PURPOSE;
+    }
+  });
+
+  it("lets an explicit minimum override the rules", () => {
+    process.env.UNIT_MIN_SHELF_LIFE_BY_PURPOSE = "neonatal:5";
+
+    try {
+      assert.deepEqual(usableAfter("Neonatal top-up", 0, now), now);
+      assert.deepEqual(usableAfter("Surgery", 2, now), daysLater(2));
+    } finally {
+      delete process.env.UNIT_MIN_SHELF_LIFE_BY_PURPOSE;
+    }
+  });
+});
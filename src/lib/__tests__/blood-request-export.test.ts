@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { csvCell } from "@/lib/blood-request-export";
+
+const quoted = (text: string) => `"${text}"`;
+
+describe("csvCell", () => {
+  it("leaves plain values as they are", () => {
+    assert.equal(csvCell("O-"), "O-");
+    assert.equal(csvCell(4), "4");
+    assert.equal(csvCell(null), "");
+    assert.equal(csvCell(undefined), "");
+  });
+
+  it("writes dates as ISO 8601", () => {
+    assert.equal(
+      csvCell(new Date("2026-10-19T08:00:00.000Z")),
+      "2026-10-19T08:00:00.000Z"
+    );
+  });
+
+  it("quotes commas, quotes and line breaks", () => {
+    assert.equal(csvCell("Doe, John"), quoted("Doe, John"));
+    assert.equal(
+      csvCell(`the ${quoted("usual")}`),
+      quoted(`the ${quoted(quoted("usual"))}`)
+    );
+    assert.equal(csvCell("line 1\nline 2"), quoted("line 1\nline 2"));
+  });
+
+  it("defuses text a spreadsheet would run as a formula", () => {
+    for (const text of ["=1+1", "+1", "-1", "@SUM(A1)", "\tx"]) {
+      assert.equal(csvCell(text), `'${text}`);
+    }
+    assert.equal(
+      csvCell(`=HYPERLINK(${quoted("x")})`),
+      quoted(`'=HYPERLINK(${quoted(quoted("x"))})`)
+    );
+  });
+});
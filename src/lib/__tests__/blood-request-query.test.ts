@@ -0,0 +1,117 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BloodGroup, RequestStatus, Urgency } from "@prisma/client";
+import { ApiError } from "@/lib/errors";
+import {
+  buildBloodRequestWhere,
+  parseBloodRequestQuery,
+} from "@/lib/blood-request-query";
+
+const parse = (query: string) =>
+  parseBloodRequestQuery(new URLSearchParams(query));
+
+const invalid = (field: string) => (error: unknown) => {
+  assert.ok(error instanceof ApiError);
+  assert.equal(error.status, 400);
+  assert.equal(error.code, "VALIDATION_ERROR");
+  assert.equal((error.details as { field: string }).field, field);
+  return true;
+};
+
+describe("parseBloodRequestQuery", () => {
+  it("defaults to the newest first page of 20", () => {
+    const { sort, order, page, limit, filter } = parse("");
+
+    assert.deepEqual(
+      { sort, order, page, limit },
+      { sort: "createdAt", order: "desc", page: 1, limit: 20 }
+    );
+    assert.equal(filter.status, undefined);
+    assert.equal(filter.includeDeleted, undefined);
+  });
+
+  it("splits comma-separated filters", () => {
+    const { filter } = parse(
+      "status=PENDING, APPROVED&bloodGroup=O_NEGATIVE&urgency=CRITICAL"
+    );
+
+    assert.deepEqual(filter.status, [
+      RequestStatus.PENDING,
+      RequestStatus.APPROVED,
+    ]);
+    assert.deepEqual(filter.bloodGroup, [BloodGroup.O_NEGATIVE]);
+    assert.deepEqual(filter.urgency, [Urgency.CRITICAL]);
+  });
+
+  it("rejects unknown enum values, sort fields and orders", () => {
+    assert.throws(() => parse("status=PENDING,LOST"), invalid("status"));
+    assert.throws(() => parse("bloodGroup=O"), invalid("bloodGroup"));
+    assert.throws(() => parse("sort=patientName"), invalid("sort"));
+    assert.throws(() => parse("order=up"), invalid("order"));
+    assert.throws(() => parse("includeDeleted=yes"), invalid("includeDeleted"));
+  });
+
+  it("bounds page and limit", () => {
+    assert.equal(parse("limit=100").limit, 100);
+    assert.throws(() => parse("limit=101"), invalid("limit"));
+    assert.throws(() => parse("page=0"), invalid("page"));
+    assert.throws(() => parse("page=1.5"), invalid("page"));
+  });
+
+  it("ends a date-only window at the start of the next day", () => {
+    const { filter } = parse("fromDate=2026-07-01&toDate=2026-09-30");
+
+    assert.deepEqual(filter.fromDate, new Date("2026-07-01T00:00:00.000Z"));
+    assert.deepEqual(filter.toDate, new Date("2026-10-01T00:00:00.000Z"));
+  });
+
+  it("keeps a timestamp window end inclusive", () => {
+    const { filter } = parse("requiredTo=2026-09-30T12:00:00.000Z");
+
+    assert.deepEqual(filter.requiredTo, new Date("2026-09-30T12:00:00.001Z"));
+  });
+
+  it("accepts a single day and rejects a window that starts after it ends", () => {
+    assert.doesNotThrow(() => parse("fromDate=2026-09-30&toDate=2026-09-30"));
+    assert.throws(
+      () => parse("fromDate=2026-10-01&toDate=2026-09-30"),
+      invalid("createdAt")
+    );
+    assert.throws(() => parse("fromDate=yesterday"), invalid("fromDate"));
+  });
+});
+
+describe("buildBloodRequestWhere", () => {
+  it("hides soft-deleted requests unless asked", () => {
+    assert.deepEqual(buildBloodRequestWhere({}), { deletedAt: null });
+    assert.deepEqual(buildBloodRequestWhere({ includeDeleted: true }), {});
+  });
+
+  it("matches any listed value and the related entities", () => {
+    assert.deepEqual(
+      buildBloodRequestWhere({
+        status: [RequestStatus.PENDING],
+        bloodGroup: [BloodGroup.A_POSITIVE, BloodGroup.A_NEGATIVE],
+        hospitalId: "hospital-1",
+      }),
+      {
+        deletedAt: null,
+        status: { in: [RequestStatus.PENDING] },
+        bloodGroup: { in: [BloodGroup.A_POSITIVE, BloodGroup.A_NEGATIVE] },
+        hospitalId: "hospital-1",
+      }
+    );
+  });
+
+  it("includes the whole last day of a date-only window", () => {
+    const { filter } = parse("toDate=2026-09-30&requiredFrom=2026-10-01");
+    const where = buildBloodRequestWhere(filter);
+
+    assert.deepEqual(where.createdAt, {
+      lt: new Date("2026-10-01T00:00:00.000Z"),
+    });
+    assert.deepEqual(where.requiredBy, {
+      gte: new Date("2026-10-01T00:00:00.000Z"),
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  MAX_BULK_IDS,
+  bloodRequestCreateSchema,
+  bloodRequestPatchSchema,
+  bloodRequestReplaceSchema,
+  bulkTransitionSchema,
+  commentSchema,
+  deleteSchema,
+} from "@/lib/blood-request-schemas";
+import { toFieldErrors } from "@/lib/validation";
+
+const creation = {
+  requesterId: "1f0c7a52-4c2e-4f6b-9a57-3f1f5b1e8d10",
+  bloodBankId: "7b6c2d4e-0a1f-4c3b-8e5d-9f2a1b3c4d5e",
+  bloodGroup: "O_NEGATIVE",
+  quantityNeeded: 2,
+  patientName: "John Doe",
+  patientAge: 45,
+  requiredBy: "2026-10-20T12:00:00.000Z",
+  purpose: "Surgery",
+};
+
+const replacement = {
+  bloodGroup: "O_POSITIVE",
+  component: "RED_CELLS",
+  quantityNeeded: 2,
+  urgency: "URGENT",
+  patientName: "John Doe",
+  patientAge: 45,
+  requiredBy: "2026-10-20T12:00:00.000Z",
+  purpose: "Surgery",
+};
+
+const fieldErrors = (body: unknown) => {
+  const result = bloodRequestCreateSchema.safeParse(body);
+  assert.equal(result.success, false);
+  return toFieldErrors(result.error!).map((item) => item.field);
+};
+
+describe("bloodRequestCreateSchema", () => {
+  it("defaults the component and urgency", () => {
+    const parsed = bloodRequestCreateSchema.parse(creation);
+
+    assert.equal(parsed.component, "WHOLE_BLOOD");
+    assert.equal(parsed.urgency, "NORMAL");
+    assert.deepEqual(parsed.requiredBy, new Date("2026-10-20T12:00:00.000Z"));
+  });
+
+  it("rejects the old field names instead of dropping them", () => {
+    assert.deepEqual(
+      fieldErrors({
+        ...creation,
+        hospitalName: "City Hospital",
+        contactNumber: "555-0100",
+      }),
+      ["hospitalName", "contactNumber"]
+    );
+  });
+
+  it("requires whole, positive quantities and a plausible age", () => {
+    assert.deepEqual(
+      fieldErrors({ ...creation, quantityNeeded: 1.5, patientAge: 151 }),
+      ["quantityNeeded", "patientAge"]
+    );
+    assert.deepEqual(fieldErrors({ ...creation, quantityNeeded: 0 }), [
+      "quantityNeeded",
+    ]);
+  });
+
+  it("requires UUIDs and known enum values", () => {
+    assert.deepEqual(
+      fieldErrors({ ...creation, bloodBankId: "bank-1", bloodGroup: "O-" }),
+      ["bloodBankId", "bloodGroup"]
+    );
+  });
+
+  it("rejects blank names and purposes", () => {
+    assert.deepEqual(
+      fieldErrors({ ...creation, patientName: "  ", purpose: "" }),
+      ["patientName", "purpose"]
+    );
+  });
+});
+
+describe("deleteSchema", () => {
+  const actorId = creation.requesterId;
+
+  it("takes an actor and an optional reason", () => {
+    assert.deepEqual(deleteSchema.parse({ actorId }), { actorId });
+    assert.deepEqual(
+      deleteSchema.parse({ actorId, reason: " Duplicate entry " }),
+      { actorId, reason: "Duplicate entry" }
+    );
+  });
+
+  it("rejects a blank reason and a missing actor", () => {
+    assert.equal(
+      deleteSchema.safeParse({ actorId, reason: " " }).success,
+      false
+    );
+    assert.equal(
+      deleteSchema.safeParse({ reason: "Duplicate" }).success,
+      false
+    );
+  });
+});
+
+describe("bloodRequestPatchSchema (JSON Merge Patch)", () => {
+  it("leaves out unsent fields and clears optional fields sent as null", () => {
+    assert.deepEqual(
+      bloodRequestPatchSchema.parse({ urgency: "CRITICAL", doctorName: null }),
+      { urgency: "CRITICAL", doctorName: null }
+    );
+  });
+
+  it("refuses null for required fields", () => {
+    assert.equal(
+      bloodRequestPatchSchema.safeParse({ patientName: null }).success,
+      false
+    );
+  });
+
+  it("refuses an empty patch, unknown fields and status", () => {
+    for (const body of [{}, { hospitalName: "City" }, { status: "APPROVED" }]) {
+      assert.equal(bloodRequestPatchSchema.safeParse(body).success, false);
+    }
+  });
+});
+
+describe("bloodRequestReplaceSchema", () => {
+  it("clears optional fields that are left out", () => {
+    const parsed = bloodRequestReplaceSchema.parse(replacement);
+
+    assert.equal(parsed.doctorName, null);
+    assert.equal(parsed.hospitalId, null);
+    assert.equal(parsed.patientGender, null);
+  });
+
+  it("requires every required field", () => {
+    const { purpose: _purpose, ...missing } = replacement;
+
+    assert.equal(bloodRequestReplaceSchema.safeParse(missing).success, false);
+  });
+});
+
+describe("commentSchema", () => {
+  const actorId = creation.requesterId;
+
+  it("trims the body and defaults to a public comment", () => {
+    assert.deepEqual(commentSchema.parse({ actorId, body: " Units ready " }), {
+      actorId,
+      body: "Units ready",
+      internal: false,
+    });
+  });
+
+  it("rejects blank and overlong bodies", () => {
+    for (const body of ["  ", "x".repeat(5001)]) {
+      assert.equal(commentSchema.safeParse({ actorId, body }).success, false);
+    }
+  });
+});
+
+describe("bulkTransitionSchema", () => {
+  const actorId = creation.requesterId;
+  const ids = [creation.requesterId, creation.bloodBankId];
+
+  it("takes an action, ids and an optional reason", () => {
+    assert.deepEqual(
+      bulkTransitionSchema.parse({ actorId, action: "approve", ids }),
+      {
+        actorId,
+        action: "approve",
+        ids,
+      }
+    );
+  });
+
+  it("requires a reason to reject", () => {
+    const result = bulkTransitionSchema.safeParse({
+      actorId,
+      action: "reject",
+      ids,
+    });
+
+    assert.equal(result.success, false);
+    assert.deepEqual(
+      toFieldErrors(result.error!).map((item) => item.field),
+      ["reason"]
+    );
+    assert.equal(
+      bulkTransitionSchema.safeParse({
+        actorId,
+        action: "reject",
+        ids,
+        reason: "Duplicate",
+      }).success,
+      true
+    );
+  });
+
+  it("rejects unknown actions and empty, repeated or too many ids", () => {
+    const tooMany = Array.from(
+      { length: MAX_BULK_IDS + 1 },
+      (_, index) => `00000000-0000-4000-8000-${String(index).padStart(12, "0")}`
+    );
+
+    for (const body of [
+      { actorId, action: "fulfill", ids },
+      { actorId, action: "approve", ids: [] },
+      { actorId, action: "approve", ids: [ids[0], ids[0]] },
+      { actorId, action: "approve", ids: tooMany },
+    ]) {
+      assert.equal(bulkTransitionSchema.safeParse(body).success, false);
+    }
+  });
+});
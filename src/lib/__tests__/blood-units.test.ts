@@ -0,0 +1,29 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BloodComponent } from "@prisma/client";
+import { SEPARABLE_COMPONENTS, shelfLifeEnd } from "@/lib/blood-units";
+
+const collectedAt = new Date("2026-10-01T09:30:00.000Z");
+
+describe("shelfLifeEnd", () => {
+  it("expires whole blood 35 days after collection", () => {
+    assert.deepEqual(
+      shelfLifeEnd(BloodComponent.WHOLE_BLOOD, collectedAt),
+      new Date("2026-11-05T09:30:00.000Z")
+    );
+  });
+
+  it("keeps each separated component for its own shelf life", () => {
+    assert.deepEqual(
+      SEPARABLE_COMPONENTS.map((component) =>
+        shelfLifeEnd(component, collectedAt).toISOString()
+      ),
+      [
+        "2026-11-12T09:30:00.000Z", // Red cells, 42 days
+        "2026-10-06T09:30:00.000Z", // Platelets, 5 days
+        "2027-10-01T09:30:00.000Z", // Plasma, 365 days
+        "2027-10-01T09:30:00.000Z", // Cryo, 365 days
+      ]
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  getInventoryCriticalPercent,
+  getRequestExpiryGraceHours,
+} from "@/lib/env";
+
+describe("getRequestExpiryGraceHours", () => {
+  afterEach(() => {
+    delete process.env.REQUEST_EXPIRY_GRACE_HOURS;
+  });
+
+  it("expires requests immediately by default", () => {
+    assert.equal(getRequestExpiryGraceHours(), 0);
+  });
+
+  it("reads a grace period in hours", () => {
+    process.env.REQUEST_EXPIRY_GRACE_HOURS = "12";
+    assert.equal(getRequestExpiryGraceHours(), 12);
+  });
+
+  it("falls back to 0 for invalid values", () => {
+    for (const value of ["-1", "soon"]) {
+      process.env.REQUEST_EXPIRY_GRACE_HOURS = value;
+      assert.equal(getRequestExpiryGraceHours(), 0, value);
+    }
+  });
+});
+
+describe("getInventoryCriticalPercent", () => {
+  afterEach(() => {
+    delete process.env.INVENTORY_CRITICAL_PERCENT;
+  });
+
+  it("defaults to 50", () => {
+    assert.equal(getInventoryCriticalPercent(), 50);
+  });
+
+  it("reads a percentage from 0 to 100", () => {
+    for (const [value, percent] of [
+      ["0", 0],
+      ["25", 25],
+      ["100", 100],
+    ] as const) {
+      process.env.INVENTORY_CRITICAL_PERCENT = value;
+      assert.equal(getInventoryCriticalPercent(), percent, value);
+    }
+  });
+
+  it("falls back to 50 for out-of-range or invalid values", () => {
+    for (const value of ["-5", "150", "half"]) {
+      process.env.INVENTORY_CRITICAL_PERCENT = value;
+      assert.equal(getInventoryCriticalPercent(), 50, value);
+    }
+  });
+});
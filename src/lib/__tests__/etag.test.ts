@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ApiError } from "@/lib/errors";
+import { etagFor, ifMatches, preconditionFailed } from "@/lib/etag";
+
+const record = { updatedAt: new Date("2026-10-19T12:00:00.000Z") };
+const etag = etagFor(record);
+
+describe("ifMatches", () => {
+  it("passes without an If-Match header", () => {
+    assert.equal(ifMatches(null, record), true);
+  });
+
+  it("matches the current ETag, weak or in a list, and *", () => {
+    assert.equal(ifMatches(etag, record), true);
+    assert.equal(ifMatches(`W/${etag}`, record), true);
+    assert.equal(ifMatches(`"stale", ${etag}`, record), true);
+    assert.equal(ifMatches("*", record), true);
+  });
+
+  it("refuses an ETag from an earlier version", () => {
+    const earlier = etagFor({
+      updatedAt: new Date("2026-10-19T11:59:59.999Z"),
+    });
+
+    assert.notEqual(earlier, etag);
+    assert.equal(ifMatches(earlier, record), false);
+  });
+});
+
+describe("preconditionFailed", () => {
+  it("returns 412 with the current version and its ETag", () => {
+    const error = preconditionFailed(record);
+
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.status, 412);
+    assert.equal(error.code, "PRECONDITION_FAILED");
+    assert.deepEqual(error.details, { current: record, etag });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { hashPayload, stableStringify } from "@/lib/idempotency";
+
+describe("stableStringify", () => {
+  it("sorts object keys at every level", () => {
+    assert.equal(
+      stableStringify({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: "x" } }),
+      JSON.stringify({ a: { c: "x", d: [2, { e: 4, f: 3 }] }, b: 1 })
+    );
+  });
+
+  it("drops undefined properties and writes dates as ISO strings", () => {
+    assert.equal(
+      stableStringify({
+        requiredBy: new Date("2026-10-20T12:00:00.000Z"),
+        notes: undefined,
+        hospitalId: null,
+      }),
+      JSON.stringify({
+        hospitalId: null,
+        requiredBy: "2026-10-20T12:00:00.000Z",
+      })
+    );
+  });
+});
+
+describe("hashPayload", () => {
+  it("ignores property order", () => {
+    assert.equal(
+      hashPayload({ bloodGroup: "O_NEGATIVE", quantityNeeded: 2 }),
+      hashPayload({ quantityNeeded: 2, bloodGroup: "O_NEGATIVE" })
+    );
+  });
+
+  it("changes with any value", () => {
+    assert.notEqual(
+      hashPayload({ bloodGroup: "O_NEGATIVE", quantityNeeded: 2 }),
+      hashPayload({ bloodGroup: "O_NEGATIVE", quantityNeeded: 3 })
+    );
+    assert.notEqual(hashPayload([1, 2]), hashPayload([2, 1]));
+  });
+
+  it("is a SHA-256 hex digest", () => {
+    assert.match(hashPayload({}), /^[0-9a-f]{64}$/);
+  });
+});
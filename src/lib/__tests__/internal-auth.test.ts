@@ -0,0 +1,43 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ApiError } from "@/lib/errors";
+import {
+  INTERNAL_TOKEN_HEADER,
+  requireInternalToken,
+} from "@/lib/internal-auth";
+
+const call = (token?: string) =>
+  new Request("http://localhost/api/internal/blood-requests/expire", {
+    method: "POST",
+    headers: token === undefined ? {} : { [INTERNAL_TOKEN_HEADER]: token },
+  });
+
+const unauthorized = (error: unknown) =>
+  error instanceof ApiError &&
+  error.status === 401 &&
+  error.code === "UNAUTHORIZED";
+
+describe("requireInternalToken", () => {
+  afterEach(() => {
+    delete process.env.INTERNAL_API_TOKEN;
+  });
+
+  it("accepts the configured token", () => {
+    process.env.INTERNAL_API_TOKEN = "s3cret-token";
+
+    assert.doesNotThrow(() => requireInternalToken(call("s3cret-token")));
+  });
+
+  it("refuses a missing, wrong or differently sized token", () => {
+    process.env.INTERNAL_API_TOKEN = "s3cret-token";
+
+    for (const token of [undefined, "", "s3cret-tokeN", "s3cret"]) {
+      assert.throws(() => requireInternalToken(call(token)), unauthorized);
+    }
+  });
+
+  it("refuses every call when no token is configured", () => {
+    assert.throws(() => requireInternalToken(call("")), unauthorized);
+    assert.throws(() => requireInternalToken(call()), unauthorized);
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { InventoryAlertLevel } from "@prisma/client";
+import { stockLevel } from "@/lib/inventory-alerts";
+
+const level = (quantity: number, criticalPercent = 50) =>
+  stockLevel(
+    { quantity, minimumQuantity: 10, maximumQuantity: 100 },
+    criticalPercent
+  );
+
+describe("stockLevel", () => {
+  afterEach(() => {
+    delete process.env.INVENTORY_CRITICAL_PERCENT;
+  });
+
+  it("is null from the minimum up to the maximum", () => {
+    assert.equal(level(10), null);
+    assert.equal(level(100), null);
+  });
+
+  it("is OVER_CAPACITY above the maximum", () => {
+    assert.equal(level(101), InventoryAlertLevel.OVER_CAPACITY);
+  });
+
+  it("is LOW below the minimum and CRITICAL at or below the percentage", () => {
+    assert.equal(level(9), InventoryAlertLevel.LOW);
+    assert.equal(level(6), InventoryAlertLevel.LOW);
+    assert.equal(level(5), InventoryAlertLevel.CRITICAL);
+    assert.equal(level(0), InventoryAlertLevel.CRITICAL);
+  });
+
+  it("takes the critical percentage from the environment by default", () => {
+    const thresholds = {
+      quantity: 7,
+      minimumQuantity: 10,
+      maximumQuantity: 100,
+    };
+
+    assert.equal(stockLevel(thresholds), InventoryAlertLevel.LOW);
+
+    process.env.INVENTORY_CRITICAL_PERCENT = "70";
+    assert.equal(stockLevel(thresholds), InventoryAlertLevel.CRITICAL);
+  });
+
+  it("only calls empty stock CRITICAL when the percentage is 0", () => {
+    assert.equal(level(1, 0), InventoryAlertLevel.LOW);
+    assert.equal(level(0, 0), InventoryAlertLevel.CRITICAL);
+  });
+
+  it("never alerts a row without a minimum until it is over capacity", () => {
+    assert.equal(
+      stockLevel({ quantity: 0, minimumQuantity: 0, maximumQuantity: 0 }, 50),
+      null
+    );
+  });
+});
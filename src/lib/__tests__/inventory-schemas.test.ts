@@ -0,0 +1,131 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  MAX_ADJUSTMENT_UNITS,
+  adjustmentSchema,
+} from "@/lib/inventory-schemas";
+import { toFieldErrors } from "@/lib/validation";
+
+const actorId = "1f0c7a52-4c2e-4f6b-9a57-3f1f5b1e8d10";
+const bloodBankId = "7b6c2d4e-0a1f-4c3b-8e5d-9f2a1b3c4d5e";
+
+const fieldErrors = (body: unknown) => {
+  const result = adjustmentSchema.safeParse(body);
+  assert.equal(result.success, false);
+  return toFieldErrors(result.error!).map((item) => item.field);
+};
+
+describe("adjustmentSchema", () => {
+  it("takes the fields of each reason", () => {
+    assert.deepEqual(
+      adjustmentSchema.parse({
+        actorId,
+        reason: "DAMAGED",
+        unitSerials: [" BB-2026-0142 ", "BB-2026-0150"],
+        notes: " Bags punctured in transit ",
+      }),
+      {
+        actorId,
+        reason: "DAMAGED",
+        unitSerials: ["BB-2026-0142", "BB-2026-0150"],
+        notes: "Bags punctured in transit",
+      }
+    );
+    assert.deepEqual(
+      adjustmentSchema.parse({
+        actorId,
+        reason: "TRANSFER",
+        unitSerials: ["BB-2026-0142"],
+        toBloodBankId: bloodBankId,
+      }),
+      {
+        actorId,
+        reason: "TRANSFER",
+        unitSerials: ["BB-2026-0142"],
+        toBloodBankId: bloodBankId,
+      }
+    );
+  });
+
+  it("rejects fields of another reason and an unknown reason", () => {
+    assert.deepEqual(
+      fieldErrors({
+        actorId,
+        reason: "ISSUED",
+        quantity: 2,
+        unitSerials: ["BB-2026-0142"],
+      }),
+      ["unitSerials"]
+    );
+    assert.deepEqual(fieldErrors({ actorId, reason: "RESTOCKED" }), ["reason"]);
+  });
+
+  it("requires whole, positive quantities within the limit", () => {
+    for (const quantity of [0, 1.5, MAX_ADJUSTMENT_UNITS + 1]) {
+      assert.deepEqual(fieldErrors({ actorId, reason: "ISSUED", quantity }), [
+        "quantity",
+      ]);
+    }
+  });
+
+  it("rejects empty, blank, repeated or too many serials", () => {
+    const tooMany = Array.from(
+      { length: MAX_ADJUSTMENT_UNITS + 1 },
+      (_, index) => `BB-2026-${index}`
+    );
+
+    for (const unitSerials of [
+      [],
+      [" "],
+      ["BB-2026-0142", "BB-2026-0142"],
+      tooMany,
+    ]) {
+      assert.equal(
+        adjustmentSchema.safeParse({ actorId, reason: "EXPIRED", unitSerials })
+          .success,
+        false
+      );
+    }
+  });
+
+  it("rejects repeated donations", () => {
+    assert.deepEqual(
+      fieldErrors({
+        actorId,
+        reason: "DONATION_RECEIVED",
+        donationIds: [bloodBankId, bloodBankId],
+      }),
+      ["donationIds"]
+    );
+  });
+
+  it("takes a count of zero and the units the count did not find", () => {
+    assert.deepEqual(
+      adjustmentSchema.parse({
+        actorId,
+        reason: "COUNT_CORRECTION",
+        countedQuantity: 0,
+        missingSerials: ["BB-2026-0142"],
+      }),
+      {
+        actorId,
+        reason: "COUNT_CORRECTION",
+        countedQuantity: 0,
+        missingSerials: ["BB-2026-0142"],
+      }
+    );
+    assert.deepEqual(
+      fieldErrors({ actorId, reason: "COUNT_CORRECTION", countedQuantity: -1 }),
+      ["countedQuantity"]
+    );
+    assert.deepEqual(
+      fieldErrors({
+        actorId,
+        reason: "COUNT_CORRECTION",
+        countedQuantity: 3,
+        missingSerials: [],
+      }),
+      ["missingSerials"]
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ApiError } from "@/lib/errors";
+import { cursorWhere, decodeCursor, encodeCursor } from "@/lib/pagination";
+
+describe("cursor encoding", () => {
+  it("round-trips date and number sort values", () => {
+    const createdAt = new Date("2026-10-19T12:00:00.000Z");
+
+    assert.deepEqual(
+      decodeCursor(
+        encodeCursor("createdAt", { id: "r-1", createdAt }),
+        "createdAt"
+      ),
+      { value: createdAt, id: "r-1" }
+    );
+    assert.deepEqual(
+      decodeCursor(
+        encodeCursor("quantityNeeded", { id: "r-2", quantityNeeded: 4 }),
+        "quantityNeeded"
+      ),
+      { value: 4, id: "r-2" }
+    );
+  });
+
+  it("treats a missing cursor as the first page", () => {
+    assert.equal(decodeCursor(null, "createdAt"), null);
+    assert.deepEqual(cursorWhere("createdAt", "desc", null), {});
+  });
+
+  it("rejects malformed cursors and cursors for another sort", () => {
+    const cursor = encodeCursor("createdAt", {
+      id: "r-1",
+      createdAt: new Date(),
+    });
+
+    for (const [value, field] of [
+      ["not-a-cursor", "createdAt"],
+      [Buffer.from("{}").toString("base64url"), "createdAt"],
+      [cursor, "requiredBy"],
+    ]) {
+      assert.throws(
+        () => decodeCursor(value, field),
+        (error: unknown) =>
+          error instanceof ApiError &&
+          error.status === 400 &&
+          error.code === "VALIDATION_ERROR"
+      );
+    }
+  });
+});
+
+describe("cursorWhere", () => {
+  it("pages past the cursor, breaking ties on id", () => {
+    const value = new Date("2026-10-19T12:00:00.000Z");
+
+    assert.deepEqual(cursorWhere("createdAt", "desc", { value, id: "r-1" }), {
+      OR: [
+        { createdAt: { lt: value } },
+        { createdAt: value, id: { lt: "r-1" } },
+      ],
+    });
+    assert.deepEqual(cursorWhere("createdAt", "asc", { value, id: "r-1" }), {
+      OR: [
+        { createdAt: { gt: value } },
+        { createdAt: value, id: { gt: "r-1" } },
+      ],
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BloodComponent, BloodGroup, RequestStatus } from "@prisma/client";
+import { ApiError } from "@/lib/errors";
+import { canTransition, checkRequestEdit } from "@/lib/request-lifecycle";
+
+const pending = {
+  status: RequestStatus.PENDING,
+  bloodGroup: BloodGroup.A_POSITIVE,
+  component: BloodComponent.RED_CELLS,
+  quantityNeeded: 4,
+  quantityFulfilled: 0,
+};
+const approved = { ...pending, status: RequestStatus.APPROVED };
+const partlyFulfilled = { ...approved, quantityFulfilled: 2 };
+
+function apiError(status: number, code: string) {
+  return (error: unknown) =>
+    error instanceof ApiError && error.status === status && error.code === code;
+}
+
+describe("checkRequestEdit", () => {
+  it("allows any clinical change while PENDING with nothing issued", () => {
+    assert.doesNotThrow(() =>
+      checkRequestEdit(pending, {
+        bloodGroup: BloodGroup.O_NEGATIVE,
+        component: BloodComponent.PLASMA,
+        quantityNeeded: 1,
+      })
+    );
+  });
+
+  it("refuses quantityNeeded below the units already issued", () => {
+    assert.throws(
+      () => checkRequestEdit(partlyFulfilled, { quantityNeeded: 1 }),
+      apiError(409, "QUANTITY_BELOW_FULFILLED")
+    );
+  });
+
+  it("locks blood group, component and lower quantities once approved", () => {
+    for (const edit of [
+      { bloodGroup: BloodGroup.O_NEGATIVE },
+      { component: BloodComponent.PLATELETS },
+      { quantityNeeded: 3 },
+    ]) {
+      assert.throws(
+        () => checkRequestEdit(approved, edit),
+        apiError(409, "CLINICAL_FIELDS_LOCKED")
+      );
+    }
+  });
+
+  it("lists every locked field that changed", () => {
+    assert.throws(
+      () =>
+        checkRequestEdit(partlyFulfilled, {
+          bloodGroup: BloodGroup.B_POSITIVE,
+          component: BloodComponent.PLASMA,
+        }),
+      (error: unknown) =>
+        error instanceof ApiError &&
+        error.code === "CLINICAL_FIELDS_LOCKED" &&
+        JSON.stringify(error.details?.fields) ===
+          JSON.stringify(["bloodGroup", "component"])
+    );
+  });
+
+  it("still allows unchanged values, more units and other fields", () => {
+    assert.doesNotThrow(() =>
+      checkRequestEdit(partlyFulfilled, {
+        bloodGroup: BloodGroup.A_POSITIVE,
+        component: BloodComponent.RED_CELLS,
+        quantityNeeded: 6,
+        doctorName: "Dr. Rao",
+      })
+    );
+  });
+});
+
+describe("canTransition", () => {
+  it("follows the lifecycle", () => {
+    assert.equal(canTransition(RequestStatus.PENDING, "approve"), true);
+    assert.equal(canTransition(RequestStatus.PENDING, "fulfill"), false);
+    assert.equal(canTransition(RequestStatus.APPROVED, "fulfill"), true);
+    assert.equal(canTransition(RequestStatus.FULFILLED, "cancel"), false);
+    assert.equal(canTransition(RequestStatus.REJECTED, "approve"), false);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { RequestStatus } from "@prisma/client";
+import {
+  DEFAULT_SLA_TARGETS,
+  parseSlaTargets,
+  slaFor,
+} from "@/lib/request-sla";
+
+const createdAt = new Date("2026-10-19T08:00:00.000Z");
+const hoursAfter = (hours: number) =>
+  new Date(createdAt.getTime() + hours * 60 * 60 * 1000);
+
+const urgent = {
+  urgency: "URGENT" as const,
+  status: RequestStatus.PENDING,
+  createdAt,
+  approvedAt: null,
+  fulfilledAt: null,
+};
+
+describe("parseSlaTargets", () => {
+  it("uses the defaults when unset", () => {
+    assert.deepEqual(parseSlaTargets(null), DEFAULT_SLA_TARGETS);
+  });
+
+  it("overrides only the listed levels", () => {
+    assert.deepEqual(parseSlaTargets("critical:0.5:2, NORMAL:48:120"), {
+      CRITICAL: { approvalHours: 0.5, fulfillmentHours: 2 },
+      URGENT: DEFAULT_SLA_TARGETS.URGENT,
+      NORMAL: { approvalHours: 48, fulfillmentHours: 120 },
+    });
+  });
+
+  it("rejects malformed targets and fulfillment before approval", () => {
+    for (const spec of [
+      "URGENT:4",
+      "SOON:4:24",
+      "URGENT:0:24",
+      "URGENT:four:24",
+      "URGENT:24:4",
+    ]) {
+      assert.throws(() => parseSlaTargets(spec), /LEVEL:APPROVAL_HOURS/, spec);
+    }
+  });
+
+  it("does not change the defaults", () => {
+    parseSlaTargets("URGENT:1:2");
+    assert.deepEqual(DEFAULT_SLA_TARGETS.URGENT, {
+      approvalHours: 4,
+      fulfillmentHours: 24,
+    });
+  });
+});
+
+describe("slaFor", () => {
+  const targets = DEFAULT_SLA_TARGETS;
+
+  it("tracks open phases against the elapsed share of the target", () => {
+    const early = slaFor(urgent, hoursAfter(1), targets);
+    assert.equal(early.status, "on-track");
+    assert.deepEqual(early.approval.dueAt, hoursAfter(4));
+    assert.deepEqual(early.fulfillment.dueAt, hoursAfter(24));
+
+    assert.equal(slaFor(urgent, hoursAfter(3), targets).status, "at-risk");
+    assert.equal(slaFor(urgent, hoursAfter(4), targets).status, "breached");
+  });
+
+  it("judges completed phases by when they were done", () => {
+    const sla = slaFor(
+      {
+        ...urgent,
+        status: RequestStatus.FULFILLED,
+        approvedAt: hoursAfter(5),
+        fulfilledAt: hoursAfter(20),
+      },
+      hoursAfter(100),
+      targets
+    );
+
+    assert.equal(sla.approval.status, "breached");
+    assert.equal(sla.fulfillment.status, "on-track");
+    assert.equal(sla.status, "breached");
+  });
+
+  it("leaves phases a closed request never reached without a status", () => {
+    const sla = slaFor(
+      { ...urgent, status: RequestStatus.CANCELLED },
+      hoursAfter(100),
+      targets
+    );
+
+    assert.equal(sla.approval.status, null);
+    assert.equal(sla.fulfillment.status, null);
+    assert.equal(sla.status, null);
+  });
+
+  it("follows the current urgency", () => {
+    const sla = slaFor(
+      { ...urgent, urgency: "CRITICAL" },
+      hoursAfter(3),
+      targets
+    );
+
+    assert.equal(sla.approval.status, "breached");
+    assert.equal(sla.fulfillment.status, "at-risk");
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BloodGroup, Prisma, Urgency } from "@prisma/client";
+import { TriageInput, scoreRequest, triageScoreSql } from "@/lib/triage";
+
+const now = new Date("2026-10-19T12:00:00.000Z");
+const hoursFromNow = (hours: number) =>
+  new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+const request = (overrides: Partial<TriageInput> = {}): TriageInput => ({
+  urgency: Urgency.NORMAL,
+  requiredBy: hoursFromNow(100),
+  bloodGroup: BloodGroup.O_POSITIVE,
+  quantityRemaining: 2,
+  availableStock: 10,
+  ...overrides,
+});
+
+const points = (input: TriageInput, factor: string) =>
+  scoreRequest(input, now).factors.find((item) => item.factor === factor)
+    ?.points;
+
+describe("scoreRequest", () => {
+  it("adds up and explains every factor", () => {
+    const { score, factors } = scoreRequest(
+      request({
+        urgency: Urgency.CRITICAL,
+        requiredBy: hoursFromNow(4),
+        bloodGroup: BloodGroup.O_NEGATIVE,
+        quantityRemaining: 3,
+        availableStock: 1,
+      }),
+      now
+    );
+
+    assert.equal(score, 98);
+    assert.deepEqual(factors, [
+      { factor: "urgency", points: 50, reason: "Urgency is CRITICAL" },
+      { factor: "timeLeft", points: 25, reason: "Required within 4h" },
+      { factor: "rarity", points: 8, reason: "O- rarity" },
+      {
+        factor: "stock",
+        points: 15,
+        reason: "1 units in stock for 3 still needed",
+      },
+    ]);
+  });
+
+  it("scores urgency levels in order", () => {
+    assert.equal(points(request({ urgency: Urgency.CRITICAL }), "urgency"), 50);
+    assert.equal(points(request({ urgency: Urgency.URGENT }), "urgency"), 30);
+    assert.equal(points(request({ urgency: Urgency.NORMAL }), "urgency"), 10);
+  });
+
+  it("bands time left, with overdue requests highest", () => {
+    const timeLeft = (hours: number) =>
+      points(request({ requiredBy: hoursFromNow(hours) }), "timeLeft");
+
+    assert.equal(timeLeft(-2), 30);
+    assert.equal(timeLeft(0), 30);
+    assert.equal(timeLeft(6), 25);
+    assert.equal(timeLeft(24), 18);
+    assert.equal(timeLeft(72), 10);
+    assert.equal(timeLeft(73), 3);
+    assert.equal(
+      scoreRequest(request({ requiredBy: hoursFromNow(-2) }), now).factors[1]
+        .reason,
+      "Overdue by 2h"
+    );
+  });
+
+  it("scores stock by how well it covers the remaining units", () => {
+    const stock = (availableStock: number) =>
+      points(request({ quantityRemaining: 4, availableStock }), "stock");
+
+    assert.equal(stock(3), 15);
+    assert.equal(stock(4), 8);
+    assert.equal(stock(7), 8);
+    assert.equal(stock(8), 0);
+  });
+});
+
+describe("triageScoreSql", () => {
+  const sql = triageScoreSql(Prisma.sql`stock."available"`, now);
+
+  it("compares requiredBy against the time band cutoffs", () => {
+    const cutoffs = sql.values.filter((value) => value instanceof Date);
+
+    assert.deepEqual(cutoffs, [
+      hoursFromNow(0),
+      hoursFromNow(6),
+      hoursFromNow(24),
+      hoursFromNow(72),
+    ]);
+    assert.match(
+      sql.text,
+      /ELSE \$\d+::integer END\)\s+\+ \(CASE r."bloodGroup"/
+    );
+  });
+
+  it("scores every urgency level and blood group", () => {
+    for (const value of [
+      ...Object.values(Urgency),
+      ...Object.values(BloodGroup),
+    ]) {
+      assert.ok(sql.values.includes(value), `${value} is scored`);
+    }
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BloodGroup, RequestStatus } from "@prisma/client";
+import { ApiError } from "@/lib/errors";
+import {
+  TurnaroundInput,
+  percentile,
+  rejectionBreakdown,
+  requireReportWindow,
+} from "@/lib/turnaround";
+
+const request = (overrides: Partial<TurnaroundInput>): TurnaroundInput => ({
+  status: RequestStatus.PENDING,
+  urgency: "NORMAL",
+  bloodGroup: BloodGroup.O_POSITIVE,
+  rejectionReason: null,
+  createdAt: new Date("2026-10-01T00:00:00.000Z"),
+  approvedAt: null,
+  fulfilledAt: null,
+  bloodBank: null,
+  ...overrides,
+});
+
+const rejected = (rejectionReason: string | null) =>
+  request({ status: RequestStatus.REJECTED, rejectionReason });
+
+describe("percentile", () => {
+  it("is null for no values", () => {
+    assert.equal(percentile([], 0.5), null);
+  });
+
+  it("interpolates between neighbours like percentile_cont", () => {
+    const sorted = [1, 2, 3, 4];
+
+    assert.equal(percentile(sorted, 0), 1);
+    assert.equal(percentile(sorted, 0.5), 2.5);
+    assert.equal(percentile(sorted, 0.9), 3.7);
+    assert.equal(percentile(sorted, 1), 4);
+  });
+
+  it("returns the only value for a single sample", () => {
+    assert.equal(percentile([7], 0.99), 7);
+  });
+});
+
+describe("rejectionBreakdown", () => {
+  it("groups free-text reasons ignoring case and whitespace", () => {
+    const breakdown = rejectionBreakdown([
+      rejected("Insufficient stock"),
+      rejected(" insufficient STOCK "),
+      rejected("Duplicate"),
+      rejected("  "),
+      request({}),
+    ]);
+
+    assert.deepEqual(breakdown, {
+      total: 5,
+      rejected: 4,
+      rate: 0.8,
+      byReason: [
+        { reason: "Insufficient stock", count: 2, share: 0.5 },
+        { reason: "Duplicate", count: 1, share: 0.25 },
+        { reason: "Unspecified", count: 1, share: 0.25 },
+      ],
+    });
+  });
+
+  it("reports a zero rate for no requests", () => {
+    assert.deepEqual(rejectionBreakdown([]), {
+      total: 0,
+      rejected: 0,
+      rate: 0,
+      byReason: [],
+    });
+  });
+});
+
+describe("requireReportWindow", () => {
+  const invalid = (field: string) => (error: unknown) =>
+    error instanceof ApiError &&
+    error.status === 400 &&
+    (error.details as { field: string }).field === field;
+
+  it("requires both ends of the window", () => {
+    const toDate = new Date("2026-10-01T00:00:00.000Z");
+
+    assert.throws(() => requireReportWindow({}), invalid("fromDate"));
+    assert.throws(() => requireReportWindow({ toDate }), invalid("fromDate"));
+    assert.throws(
+      () => requireReportWindow({ fromDate: toDate }),
+      invalid("toDate")
+    );
+  });
+
+  it("allows up to a leap year", () => {
+    assert.doesNotThrow(() =>
+      requireReportWindow({
+        fromDate: new Date("2028-01-01T00:00:00.000Z"),
+        toDate: new Date("2029-01-01T00:00:00.000Z"),
+      })
+    );
+    assert.throws(
+      () =>
+        requireReportWindow({
+          fromDate: new Date("2028-01-01T00:00:00.000Z"),
+          toDate: new Date("2029-01-02T00:00:00.000Z"),
+        }),
+      invalid("createdAt")
+    );
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_ESCALATION_RULES,
+  escalatedUrgency,
+  parseEscalationRules,
+} from "@/lib/urgency-escalation";
+
+describe("parseEscalationRules", () => {
+  it("uses the defaults when unset and nothing for none", () => {
+    assert.equal(parseEscalationRules(null), DEFAULT_ESCALATION_RULES);
+    assert.deepEqual(parseEscalationRules(" None "), []);
+  });
+
+  it("parses FROM:TO:HOURS lists, ignoring case and spaces", () => {
+    assert.deepEqual(
+      parseEscalationRules("normal:urgent:48, URGENT : CRITICAL : 2.5,"),
+      [
+        { from: "NORMAL", to: "URGENT", withinHours: 48 },
+        { from: "URGENT", to: "CRITICAL", withinHours: 2.5 },
+      ]
+    );
+  });
+
+  it("rejects malformed rules", () => {
+    for (const spec of [
+      "NORMAL:URGENT",
+      "NORMAL:SOON:24",
+      "NORMAL:URGENT:0",
+      "NORMAL:URGENT:a day",
+    ]) {
+      assert.throws(() => parseEscalationRules(spec), /FROM:TO:HOURS/, spec);
+    }
+  });
+
+  it("rejects rules that would lower or keep urgency", () => {
+    assert.throws(
+      () => parseEscalationRules("CRITICAL:NORMAL:6"),
+      /can only be raised/
+    );
+    assert.throws(
+      () => parseEscalationRules("URGENT:URGENT:6"),
+      /can only be raised/
+    );
+  });
+});
+
+describe("escalatedUrgency", () => {
+  const rules = DEFAULT_ESCALATION_RULES;
+
+  it("keeps the urgency until a rule applies", () => {
+    assert.equal(escalatedUrgency("NORMAL", 25, rules), "NORMAL");
+    assert.equal(escalatedUrgency("URGENT", 7, rules), "URGENT");
+  });
+
+  it("raises urgency once requiredBy is close enough", () => {
+    assert.equal(escalatedUrgency("NORMAL", 24, rules), "URGENT");
+    assert.equal(escalatedUrgency("URGENT", 6, rules), "CRITICAL");
+  });
+
+  it("chains rules, including for overdue requests", () => {
+    assert.equal(escalatedUrgency("NORMAL", 3, rules), "CRITICAL");
+    assert.equal(escalatedUrgency("NORMAL", -10, rules), "CRITICAL");
+  });
+
+  it("never lowers urgency", () => {
+    assert.equal(escalatedUrgency("CRITICAL", 100, rules), "CRITICAL");
+    assert.equal(escalatedUrgency("CRITICAL", 1, rules), "CRITICAL");
+  });
+
+  it("does nothing without rules", () => {
+    assert.equal(escalatedUrgency("NORMAL", -1, []), "NORMAL");
+  });
+});
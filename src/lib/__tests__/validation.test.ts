@@ -0,0 +1,102 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { ApiError } from "@/lib/errors";
+import { dateInput, parseBody } from "@/lib/validation";
+
+const schema = z
+  .object({
+    patientName: z.string(),
+    requiredBy: dateInput,
+  })
+  .strict();
+
+const post = (body: unknown, contentType = "application/json") =>
+  new Request("http://localhost/api/test", {
+    method: "POST",
+    headers: { "Content-Type": contentType },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+
+const valid = { patientName: "Jane", requiredBy: "2026-01-20T00:00:00Z" };
+
+const apiError =
+  (status: number, code: string, details?: unknown) => (error: unknown) => {
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.status, status);
+    assert.equal(error.code, code);
+    if (details !== undefined) assert.deepEqual(error.details, details);
+    return true;
+  };
+
+describe("dateInput", () => {
+  it("accepts ISO 8601 date-times with Z or an offset", () => {
+    assert.deepEqual(
+      dateInput.parse("2026-01-20T00:00:00.000Z"),
+      new Date("2026-01-20T00:00:00.000Z")
+    );
+    assert.deepEqual(
+      dateInput.parse("2026-01-20T05:30:00+05:30"),
+      new Date("2026-01-20T00:00:00.000Z")
+    );
+  });
+
+  it("rejects formats Date.parse would accept", () => {
+    for (const value of [
+      "Jan 20 2026",
+      "2026/01/20",
+      "1768867200000",
+      "2026-01-20T00:00:00",
+      "2026-01-20",
+    ]) {
+      assert.equal(dateInput.safeParse(value).success, false, value);
+    }
+  });
+});
+
+describe("parseBody", () => {
+  it("returns the parsed body", async () => {
+    const body = await parseBody(post(valid), schema);
+
+    assert.deepEqual(body, {
+      patientName: "Jane",
+      requiredBy: new Date("2026-01-20T00:00:00.000Z"),
+    });
+  });
+
+  it("lists every invalid and unknown field at once", async () => {
+    await assert.rejects(
+      parseBody(post({ requiredBy: "tomorrow", notes: "x" }), schema),
+      apiError(400, "VALIDATION_ERROR", {
+        fields: [
+          { field: "patientName", message: "Required" },
+          {
+            field: "requiredBy",
+            message:
+              "Must be an ISO 8601 date-time, e.g. 2026-01-20T00:00:00.000Z",
+          },
+          { field: "notes", message: "Unknown field" },
+        ],
+      })
+    );
+  });
+
+  it("rejects a body that is not JSON", async () => {
+    await assert.rejects(
+      parseBody(post("{not json"), schema),
+      apiError(400, "VALIDATION_ERROR")
+    );
+  });
+
+  it("checks the media type, ignoring parameters", async () => {
+    await assert.doesNotReject(
+      parseBody(post(valid, "application/json; charset=utf-8"), schema, [
+        "application/json",
+      ])
+    );
+    await assert.rejects(
+      parseBody(post(valid, "text/plain"), schema, ["application/json"]),
+      apiError(415, "UNSUPPORTED_MEDIA_TYPE")
+    );
+  });
+});
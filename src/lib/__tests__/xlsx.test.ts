@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { inflateRawSync } from "zlib";
+import { Cell, xlsxChunks } from "@/lib/xlsx";
+
+async function* rowsOf(rows: Cell[][]) {
+  yield* rows;
+}
+
+async function workbook(rows: Cell[][]) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of xlsxChunks(
+    "Blood Requests",
+    ["ID", "Note"],
+    rowsOf(rows)
+  )) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Reads the parts back through the central directory
+function unzip(zip: Buffer) {
+  const end = zip.length - 22;
+  assert.equal(zip.readUInt32LE(end), 0x06054b50);
+
+  const parts = new Map<string, string>();
+  let record = zip.readUInt32LE(end + 16);
+
+  for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+    assert.equal(zip.readUInt32LE(record), 0x02014b50);
+
+    const compressed = zip.readUInt32LE(record + 20);
+    const size = zip.readUInt32LE(record + 24);
+    const nameLength = zip.readUInt16LE(record + 28);
+    const offset = zip.readUInt32LE(record + 42);
+    const name = zip.toString("utf8", record + 46, record + 46 + nameLength);
+
+    assert.equal(zip.readUInt32LE(offset), 0x04034b50);
+    const start = offset + 30 + zip.readUInt16LE(offset + 26);
+    const content = inflateRawSync(zip.subarray(start, start + compressed));
+
+    assert.equal(content.length, size, name);
+    parts.set(name, content.toString("utf8"));
+    record += 46 + nameLength;
+  }
+
+  return parts;
+}
+
+describe("xlsxChunks", () => {
+  it("writes a ZIP with the workbook parts", async () => {
+    const parts = unzip(await workbook([["r-1", "note"]]));
+
+    assert.deepEqual(
+      [...parts.keys()],
+      [
+        "[Content_Types].xml",
+        "_rels/.rels",
+        "xl/workbook.xml",
+        "xl/_rels/workbook.xml.rels",
+        "xl/worksheets/sheet1.xml",
+      ]
+    );
+    assert.match(parts.get("xl/workbook.xml")!, /<sheet name="Blood Requests"/);
+  });
+
+  it("writes numbers, escaped text and dates in numbered rows", async () => {
+    const sheet = unzip(
+      await workbook([
+        [7, "A & B <ok>"],
+        [null, new Date("2026-10-19T08:00:00.000Z")],
+      ])
+    ).get("xl/worksheets/sheet1.xml")!;
+
+    assert.match(sheet, /<row r="1"><c r="A1" t="inlineStr">/);
+    assert.match(sheet, /<c r="A2"><v>7<\/v><\/c>/);
+    assert.match(sheet, /A &amp; B &lt;ok&gt;/);
+    assert.match(
+      sheet,
+      /<row r="3"><c r="B3" t="inlineStr"><is><t xml:space="preserve">2026-10-19T08:00:00.000Z<\/t>/
+    );
+    assert.match(sheet, /<\/sheetData><\/worksheet>$/);
+  });
+
+  it("drops characters XML cannot hold", async () => {
+    const sheet = unzip(await workbook([["a\u0000b\u001fc"]])).get(
+      "xl/worksheets/sheet1.xml"
+    )!;
+
+    assert.match(sheet, />abc<\/t>/);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Acting User Lookup
+ *
+ * The API has no session yet, so routes that change data take the acting
+ * staff member as `actorId` and check it here before doing any work.
+ */
+
+import { UserRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/errors";
+
+/**
+ * @throws ApiError 404 - Actor not found
+ */
+export async function requireActor(actorId: string) {
+  const actor = await prisma.user.findUnique({
+    where: { id: actorId },
+    select: { id: true, role: true },
+  });
+
+  if (!actor) {
+    throw new ApiError(404, "NOT_FOUND", "Actor not found");
+  }
+
+  return actor;
+}
+
+/**
+ * @throws ApiError 400 - No actorId given
+ * @throws ApiError 403 - Actor is not an admin
+ * @throws ApiError 404 - Actor not found
+ */
+export async function requireAdmin(actorId: string | null | undefined) {
+  if (!actorId) {
+    throw new ApiError(400, "VALIDATION_ERROR", "actorId is required", {
+      field: "actorId",
+    });
+  }
+
+  const actor = await requireActor(actorId);
+
+  if (actor.role !== UserRole.ADMIN) {
+    throw new ApiError(403, "FORBIDDEN", "Only admins can do this");
+  }
+
+  return actor;
+}
@@ -0,0 +1,415 @@
+/**
+ * Blood Allocation with Compatibility-Aware Substitution
+ *
+ * When a blood bank cannot cover a request with the exact blood group,
+ * compatible donor groups (see canReceiveFrom in src/types) are proposed
+ * in order of preference:
+ *
+ * 1. The exact blood group
+ * 2. Same ABO group, other Rh factor (e.g. A- for an A+ patient)
+ * 3. Same Rh factor, other ABO group (e.g. O+ for an A+ patient)
+ * 4. Any other compatible group
+ * 5. O_NEGATIVE - the universal donor is kept in reserve for last
+ *
+ * Within a tier, non-O groups come first so O stock stays available for
+ * patients who can only receive O.
+ *
+ * Requests are for one blood component (see BloodComponent). Plasma and
+ * cryo follow the reverse rules (see canReceiveComponentFrom): AB_POSITIVE
+ * is the universal plasma donor kept in reserve, and non-AB groups come
+ * first within a tier. Whole blood is only substituted within the same ABO
+ * group, since it carries the donor's plasma too.
+ *
+ * A request can be served by several blood banks. Each issue is recorded
+ * as a BloodRequestAllocation until quantityNeeded is met, linked to the
+ * BloodUnits issued for it.
+ *
+ * Units are issued first-expiry-first-out (see decrementInventory). Some
+ * purposes need blood with shelf life to spare, e.g. neonatal transfusions;
+ * UNIT_MIN_SHELF_LIFE_BY_PURPOSE maps purpose keywords to a minimum number
+ * of days a unit must have left, and staff can set one per fulfillment.
+ */
+
+import {
+  BloodComponent,
+  BloodGroup,
+  BloodUnitStatus,
+  Prisma,
+} from "@prisma/client";
+import { ApiError } from "@/lib/errors";
+import { decrementInventory } from "@/lib/inventory";
+import { getUnitShelfLifeRules } from "@/lib/env";
+import { PLASMA_COMPONENTS, canReceiveComponentFrom } from "@/types";
+
+type Db = Prisma.TransactionClient;
+
+export type CompatibleStock = {
+  bloodGroup: BloodGroup;
+  available: number;
+  isExactMatch: boolean;
+  sufficient: boolean; // Covers the full quantity on its own
+};
+
+export type BankAllocationInput = {
+  bloodBankId: string;
+  quantity: number; // Units to issue from this blood bank
+  issuedBloodGroup?: BloodGroup;
+};
+
+export type FulfillmentOptions = {
+  issuedBloodGroup?: BloodGroup; // Explicit substitute chosen by staff
+  allowSubstitution?: boolean; // Let the allocator pick a substitute
+  allocations?: BankAllocationInput[]; // Split the issue across blood banks
+  minShelfLifeDays?: number; // Overrides the purpose rules
+};
+
+export type ShelfLifeRule = {
+  keyword: string; // Matched case-insensitively within the request purpose
+  minDays: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const aboGroup = (group: BloodGroup) => group.split("_")[0];
+const isRhPositive = (group: BloodGroup) => group.endsWith("_POSITIVE");
+
+function substitutionRank(
+  recipient: BloodGroup,
+  donor: BloodGroup,
+  component: BloodComponent
+): number {
+  const isPlasma = PLASMA_COMPONENTS.includes(component);
+  const universalDonor = isPlasma
+    ? BloodGroup.AB_POSITIVE
+    : BloodGroup.O_NEGATIVE;
+
+  if (donor === recipient) return 0;
+  if (donor === universalDonor) return 100;
+
+  const tier =
+    aboGroup(donor) === aboGroup(recipient)
+      ? 1
+      : isRhPositive(donor) === isRhPositive(recipient)
+      ? 2
+      : 3;
+
+  return tier * 2 + (aboGroup(donor) === (isPlasma ? "AB" : "O") ? 1 : 0);
+}
+
+/**
+ * Parses a KEYWORD:DAYS list, e.g. "neonatal:5,exchange transfusion:7"
+ *
+ * @throws Error - A rule is malformed
+ */
+export function parseShelfLifeRules(spec: string | null): ShelfLifeRule[] {
+  if (spec === null) return [];
+
+  return spec
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => {
+      const separator = item.lastIndexOf(":");
+      const keyword = item.slice(0, separator).trim().toLowerCase();
+      const minDays = Number(item.slice(separator + 1));
+
+      if (
+        separator < 0 ||
+        !keyword ||
+        !Number.isFinite(minDays) ||
+        minDays < 0
+      ) {
+        throw new Error(
+          `Invalid unit shelf life rule "${item}"; expected KEYWORD:DAYS, e.g. neonatal:5`
+        );
+      }
+
+      return { keyword, minDays };
+    });
+}
+
+/**
+ * Earliest expiry a unit may have to be issued for a request
+ *
+ * An explicit minShelfLifeDays wins; otherwise the strictest rule whose
+ * keyword appears in the purpose applies. No rule means any unit that has
+ * not expired yet.
+ */
+export function usableAfter(
+  purpose: string,
+  minShelfLifeDays?: number,
+  now: Date = new Date()
+): Date {
+  const days =
+    minShelfLifeDays ??
+    Math.max(
+      0,
+      ...parseShelfLifeRules(getUnitShelfLifeRules())
+        .filter((rule) => purpose.toLowerCase().includes(rule.keyword))
+        .map((rule) => rule.minDays)
+    );
+
+  return new Date(now.getTime() + days * DAY_MS);
+}
+
+/**
+ * Returns every donor group a recipient can receive a component from, most
+ * preferred first
+ */
+export function rankCompatibleGroups(
+  recipient: BloodGroup,
+  component: BloodComponent = BloodComponent.WHOLE_BLOOD
+): BloodGroup[] {
+  return canReceiveComponentFrom(recipient, component).sort(
+    (a, b) =>
+      substitutionRank(recipient, a, component) -
+      substitutionRank(recipient, b, component)
+  );
+}
+
+/**
+ * Lists stock of a component in every compatible blood group at a blood
+ * bank, ranked by substitution preference
+ *
+ * Counts available units that are still usable after `expiresAfter`.
+ */
+export async function findCompatibleStock(
+  db: Db,
+  bloodBankId: string,
+  bloodGroup: BloodGroup,
+  component: BloodComponent,
+  quantity: number,
+  expiresAfter: Date = new Date()
+): Promise<CompatibleStock[]> {
+  const ranked = rankCompatibleGroups(bloodGroup, component);
+
+  const units = await db.bloodUnit.groupBy({
+    by: ["bloodGroup"],
+    where: {
+      bloodBankId,
+      bloodGroup: { in: ranked },
+      component,
+      status: BloodUnitStatus.AVAILABLE,
+      expiresAt: { gt: expiresAfter },
+    },
+    _count: { _all: true },
+  });
+
+  return ranked.map((group) => {
+    const available =
+      units.find((item) => item.bloodGroup === group)?._count._all ?? 0;
+
+    return {
+      bloodGroup: group,
+      available,
+      isExactMatch: group === bloodGroup,
+      sufficient: available >= quantity,
+    };
+  });
+}
+
+/**
+ * Turns fulfillment options into a per-bank allocation plan
+ *
+ * Without explicit allocations, the remaining quantity is issued from the
+ * request's assigned blood bank. The plan is sorted by blood bank so that
+ * concurrent fulfillments lock inventory rows in the same order.
+ *
+ * @throws ApiError 400 OVER_ALLOCATION - More units than the request still needs
+ * @throws ApiError 409 NOTHING_TO_FULFILL - No units are still needed
+ * @throws ApiError 409 BLOOD_BANK_NOT_ASSIGNED - No bank to default to
+ */
+export function planAllocations(
+  request: { bloodBankId: string | null; quantityRemaining: number },
+  { allocations, issuedBloodGroup }: FulfillmentOptions
+): BankAllocationInput[] {
+  if (request.quantityRemaining <= 0) {
+    throw new ApiError(
+      409,
+      "NOTHING_TO_FULFILL",
+      "Blood request has no units left to fulfill",
+      { quantityRemaining: request.quantityRemaining }
+    );
+  }
+
+  if (!allocations?.length) {
+    if (!request.bloodBankId) {
+      throw new ApiError(
+        409,
+        "BLOOD_BANK_NOT_ASSIGNED",
+        "Blood request has no blood bank to fulfill it from"
+      );
+    }
+
+    return [
+      {
+        bloodBankId: request.bloodBankId,
+        quantity: request.quantityRemaining,
+        issuedBloodGroup,
+      },
+    ];
+  }
+
+  const total = allocations.reduce((sum, item) => sum + item.quantity, 0);
+
+  if (total > request.quantityRemaining) {
+    throw new ApiError(
+      400,
+      "OVER_ALLOCATION",
+      `Allocations total ${total} units but only ${request.quantityRemaining} units are still needed`,
+      { allocated: total, quantityRemaining: request.quantityRemaining }
+    );
+  }
+
+  return [...allocations].sort((a, b) =>
+    a.bloodBankId.localeCompare(b.bloodBankId)
+  );
+}
+
+/**
+ * Issues units for a request from one blood bank, substituting a compatible
+ * blood group when allowed
+ *
+ * Must run inside the transaction that records the fulfillment. Only units
+ * still usable after `expiresAfter` are issued.
+ *
+ * @throws ApiError 400 INCOMPATIBLE_BLOOD_GROUP - Chosen group is unsafe
+ * @throws ApiError 409 INSUFFICIENT_STOCK - No acceptable group has enough
+ *                      units; details.substitutes lists usable alternatives
+ */
+export async function allocateFromBank(
+  tx: Db,
+  {
+    bloodBankId,
+    bloodGroup,
+    component,
+    quantity,
+    expiresAfter,
+  }: {
+    bloodBankId: string;
+    bloodGroup: BloodGroup;
+    component: BloodComponent;
+    quantity: number;
+    expiresAfter: Date;
+  },
+  {
+    issuedBloodGroup,
+    allowSubstitution,
+  }: Pick<FulfillmentOptions, "issuedBloodGroup" | "allowSubstitution">
+) {
+  if (
+    issuedBloodGroup &&
+    !canReceiveComponentFrom(bloodGroup, component).includes(issuedBloodGroup)
+  ) {
+    throw new ApiError(
+      400,
+      "INCOMPATIBLE_BLOOD_GROUP",
+      `${issuedBloodGroup} ${component} cannot be issued to a ${bloodGroup} recipient`,
+      { requested: bloodGroup, issued: issuedBloodGroup, component }
+    );
+  }
+
+  const candidates = issuedBloodGroup
+    ? [issuedBloodGroup]
+    : allowSubstitution
+    ? rankCompatibleGroups(bloodGroup, component)
+    : [bloodGroup];
+
+  for (const candidate of candidates) {
+    try {
+      const inventory = await decrementInventory(tx, {
+        bloodBankId,
+        bloodGroup: candidate,
+        component,
+        quantity,
+        expiresAfter,
+      });
+
+      return {
+        issuedBloodGroup: candidate,
+        substituted: candidate !== bloodGroup,
+        inventory,
+      };
+    } catch (error) {
+      // Try the next candidate; stock checks do not abort the transaction
+      if (error instanceof ApiError && error.code === "INSUFFICIENT_STOCK") {
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  const stock = await findCompatibleStock(
+    tx,
+    bloodBankId,
+    bloodGroup,
+    component,
+    quantity,
+    expiresAfter
+  );
+  const available =
+    stock.find((item) => item.bloodGroup === candidates[0])?.available ?? 0;
+
+  throw new ApiError(
+    409,
+    "INSUFFICIENT_STOCK",
+    `Insufficient inventory: Available ${available} units, Requested ${quantity} units`,
+    {
+      bloodBankId,
+      bloodGroup: candidates[0],
+      component,
+      available,
+      requested: quantity,
+      expiresAfter,
+      substitutes: stock.filter(
+        (item) => !item.isExactMatch && item.sufficient
+      ),
+    }
+  );
+}
+
+/**
+ * Builds the fulfillment breakdown shown on the request detail endpoint
+ */
+export function summarizeFulfillment(request: {
+  quantityNeeded: number;
+  quantityFulfilled: number;
+  allocations: {
+    quantity: number;
+    bloodGroup: BloodGroup;
+    bloodBank: { id: string; name: string };
+  }[];
+}) {
+  const byBloodBank = new Map<
+    string,
+    {
+      bloodBank: { id: string; name: string };
+      quantity: number;
+      bloodGroups: BloodGroup[];
+    }
+  >();
+
+  for (const allocation of request.allocations) {
+    const entry = byBloodBank.get(allocation.bloodBank.id) ?? {
+      bloodBank: allocation.bloodBank,
+      quantity: 0,
+      bloodGroups: [],
+    };
+
+    entry.quantity += allocation.quantity;
+    if (!entry.bloodGroups.includes(allocation.bloodGroup)) {
+      entry.bloodGroups.push(allocation.bloodGroup);
+    }
+    byBloodBank.set(allocation.bloodBank.id, entry);
+  }
+
+  return {
+    quantityNeeded: request.quantityNeeded,
+    quantityFulfilled: request.quantityFulfilled,
+    quantityRemaining: Math.max(
+      request.quantityNeeded - request.quantityFulfilled,
+      0
+    ),
+    byBloodBank: [...byBloodBank.values()],
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * Blood Request Export (CSV / XLSX)
+ *
+ * Streams every blood request matching the list filters (see
+ * src/lib/blood-request-query.ts) as a spreadsheet for auditors. Rows are
+ * read in keyset batches (see src/lib/pagination.ts) and written as they
+ * arrive, so a large date range never sits in memory.
+ *
+ * Related records are flattened to names, and blood groups are written
+ * the way staff read them (O_NEGATIVE -> O-). XLSX exports are capped at
+ * the rows a sheet holds; CSV has no limit.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/errors";
+import {
+  Cursor,
+  SortOrder,
+  cursorWhere,
+  keysetOrderBy,
+} from "@/lib/pagination";
+import { SortField } from "@/lib/blood-request-query";
+import { RequestSla, parseSlaTargets, slaFor } from "@/lib/request-sla";
+import { getUrgencySlaTargets } from "@/lib/env";
+import { Cell, XLSX_MAX_ROWS, XLSX_MIME_TYPE, xlsxChunks } from "@/lib/xlsx";
+import { formatBloodGroup } from "@/types";
+
+export const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: XLSX_MIME_TYPE,
+};
+
+const BATCH_SIZE = 500;
+
+const exportSelect = {
+  id: true,
+  status: true,
+  urgency: true,
+  bloodGroup: true,
+  component: true,
+  quantityNeeded: true,
+  quantityFulfilled: true,
+  patientName: true,
+  patientAge: true,
+  patientGender: true,
+  purpose: true,
+  doctorName: true,
+  requiredBy: true,
+  rejectionReason: true,
+  createdAt: true,
+  updatedAt: true,
+  approvedAt: true,
+  fulfilledAt: true,
+  cancelledAt: true,
+  deletedAt: true,
+  requester: { select: { firstName: true, lastName: true, email: true } },
+  hospital: { select: { name: true } },
+  bloodBank: { select: { name: true } },
+} satisfies Prisma.BloodRequestSelect;
+
+type ExportRow = Prisma.BloodRequestGetPayload<{
+  select: typeof exportSelect;
+}>;
+
+type Column = {
+  header: string;
+  value: (row: ExportRow, sla: RequestSla) => Cell;
+};
+
+const COLUMNS: Column[] = [
+  { header: "Request ID", value: (row) => row.id },
+  { header: "Status", value: (row) => row.status },
+  { header: "Urgency", value: (row) => row.urgency },
+  { header: "SLA Status", value: (_, sla) => sla.status },
+  { header: "Blood Group", value: (row) => formatBloodGroup(row.bloodGroup) },
+  { header: "Component", value: (row) => row.component },
+  { header: "Units Needed", value: (row) => row.quantityNeeded },
+  { header: "Units Issued", value: (row) => row.quantityFulfilled },
+  { header: "Patient Name", value: (row) => row.patientName },
+  { header: "Patient Age", value: (row) => row.patientAge },
+  { header: "Patient Gender", value: (row) => row.patientGender },
+  { header: "Purpose", value: (row) => row.purpose },
+  { header: "Doctor", value: (row) => row.doctorName },
+  {
+    header: "Requester",
+    value: (row) => `${row.requester.firstName} ${row.requester.lastName}`,
+  },
+  { header: "Requester Email", value: (row) => row.requester.email },
+  { header: "Hospital", value: (row) => row.hospital?.name },
+  { header: "Blood Bank", value: (row) => row.bloodBank?.name },
+  { header: "Required By", value: (row) => row.requiredBy },
+  { header: "Created At", value: (row) => row.createdAt },
+  { header: "Approved At", value: (row) => row.approvedAt },
+  { header: "Fulfilled At", value: (row) => row.fulfilledAt },
+  { header: "Cancelled At", value: (row) => row.cancelledAt },
+  { header: "Rejection Reason", value: (row) => row.rejectionReason },
+  { header: "Deleted At", value: (row) => row.deletedAt },
+];
+
+/**
+ * Matching requests as spreadsheet rows, fetched BATCH_SIZE at a time
+ */
+async function* exportRows(
+  where: Prisma.BloodRequestWhereInput,
+  sort: SortField,
+  order: SortOrder
+): AsyncGenerator<Cell[]> {
+  const targets = parseSlaTargets(getUrgencySlaTargets());
+  const now = new Date();
+  let cursor: Cursor | null = null;
+
+  while (true) {
+    const batch: ExportRow[] = await prisma.bloodRequest.findMany({
+      where: { AND: [where, cursorWhere(sort, order, cursor)] },
+      select: exportSelect,
+      orderBy: keysetOrderBy(sort, order),
+      take: BATCH_SIZE,
+    });
+
+    for (const row of batch) {
+      const sla = slaFor(row, now, targets);
+      yield COLUMNS.map((column) => column.value(row, sla));
+    }
+
+    if (batch.length < BATCH_SIZE) return;
+
+    const last = batch[batch.length - 1];
+    cursor = { value: last[sort], id: last.id };
+  }
+}
+
+// Cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function csvCell(value: Cell) {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return String(value);
+
+  let text = value instanceof Date ? value.toISOString() : value;
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+
+  // Quote when needed, doubling any quotes inside ($& is the match)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "$&$&")}"` : text;
+}
+
+async function* csvChunks(rows: AsyncIterable<Cell[]>) {
+  // BOM so Excel opens the file as UTF-8
+  yield Buffer.from(
+    "\ufeff" +
+      COLUMNS.map((column) => csvCell(column.header)).join(",") +
+      "\r\n"
+  );
+
+  for await (const row of rows) {
+    yield Buffer.from(row.map(csvCell).join(",") + "\r\n");
+  }
+}
+
+/**
+ * Refuses an XLSX export with more rows than a sheet holds
+ *
+ * @throws ApiError 413 EXPORT_TOO_LARGE - details give the matching rows
+ */
+export async function checkExportSize(
+  format: ExportFormat,
+  where: Prisma.BloodRequestWhereInput
+) {
+  if (format !== "xlsx") return;
+
+  // One sheet row goes to the header
+  const maxRows = XLSX_MAX_ROWS - 1;
+  const rows = await prisma.bloodRequest.count({ where });
+
+  if (rows > maxRows) {
+    throw new ApiError(
+      413,
+      "EXPORT_TOO_LARGE",
+      `XLSX exports hold at most ${maxRows} rows. Narrow the filters or export CSV.`,
+      { rows, maxRows }
+    );
+  }
+}
+
+/**
+ * Streams the export as a web ReadableStream for a Response body
+ *
+ * Rows are only read when the client pulls, and cancelling the download
+ * stops the database reads.
+ */
+export function exportBloodRequests(
+  format: ExportFormat,
+  where: Prisma.BloodRequestWhereInput,
+  sort: SortField,
+  order: SortOrder
+): ReadableStream<Uint8Array> {
+  const rows = exportRows(where, sort, order);
+  const chunks =
+    format === "xlsx"
+      ? xlsxChunks(
+          "Blood Requests",
+          COLUMNS.map((column) => column.header),
+          rows
+        )
+      : csvChunks(rows);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(new Uint8Array(value));
+      } catch (error) {
+        console.error("Error streaming blood request export:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
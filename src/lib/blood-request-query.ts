@@ -0,0 +1,237 @@
+/**
+ * Blood Request List Query Parsing
+ *
+ * Turns GET /api/blood-requests query parameters into a validated
+ * BloodRequestFilter, sort and pagination settings, then into a Prisma
+ * where clause. Invalid values throw a 400 instead of reaching Prisma.
+ *
+ * Multi-value filters accept comma-separated lists:
+ * ?status=PENDING,APPROVED&bloodGroup=O_NEGATIVE,O_POSITIVE
+ */
+
+import { BloodGroup, Prisma, RequestStatus } from "@prisma/client";
+import { ApiError } from "@/lib/errors";
+import { SortOrder } from "@/lib/pagination";
+import {
+  BloodRequestFilter,
+  isValidBloodGroup,
+  isValidRequestStatus,
+  isValidUrgency,
+  Urgency,
+  URGENCY_LEVELS,
+} from "@/types";
+
+export const SORTABLE_FIELDS = [
+  "createdAt",
+  "updatedAt",
+  "requiredBy",
+  "quantityNeeded",
+] as const;
+
+export type SortField = (typeof SORTABLE_FIELDS)[number];
+
+export const MAX_PAGE_SIZE = 100;
+
+export type BloodRequestListQuery = {
+  filter: BloodRequestFilter;
+  sort: SortField;
+  order: SortOrder;
+  page: number;
+  limit: number;
+};
+
+function invalid(field: string, value: string, allowed?: readonly string[]) {
+  return new ApiError(400, "VALIDATION_ERROR", `Invalid ${field} value`, {
+    field,
+    value,
+    ...(allowed && { allowed }),
+  });
+}
+
+export function parseList<T extends string>(
+  params: URLSearchParams,
+  field: string,
+  isValid: (value: string) => value is T,
+  allowed: readonly string[]
+): T[] | undefined {
+  const raw = params.get(field);
+  if (!raw) return undefined;
+
+  const values = raw.split(",").map((value) => value.trim());
+  const bad = values.find((value) => !isValid(value));
+
+  if (bad !== undefined) throw invalid(field, bad, allowed);
+
+  return values as T[];
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDate(params: URLSearchParams, field: string) {
+  const raw = params.get(field);
+  if (!raw) return undefined;
+
+  const date = new Date(raw);
+  if (isNaN(date.getTime())) throw invalid(field, raw);
+
+  return date;
+}
+
+/**
+ * Parses the end of a window as an exclusive bound
+ *
+ * A date-only value covers that whole day (UTC), so it ends at the start of
+ * the next day. A timestamp stays inclusive: timestamps are stored to the
+ * millisecond, so the bound is the next millisecond.
+ */
+function parseWindowEnd(params: URLSearchParams, field: string) {
+  const date = parseDate(params, field);
+  if (!date) return undefined;
+
+  if (DATE_ONLY.test(params.get(field)!)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  } else {
+    date.setUTCMilliseconds(date.getUTCMilliseconds() + 1);
+  }
+
+  return date;
+}
+
+function parseBoolean(params: URLSearchParams, field: string) {
+  const raw = params.get(field);
+  if (!raw) return undefined;
+
+  if (raw !== "true" && raw !== "false") {
+    throw invalid(field, raw, ["true", "false"]);
+  }
+
+  return raw === "true";
+}
+
+export function parsePositiveInt(
+  params: URLSearchParams,
+  field: string,
+  fallback: number,
+  max = Infinity
+) {
+  const raw = params.get(field);
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1 || value > max) {
+    throw invalid(field, raw);
+  }
+
+  return value;
+}
+
+function checkWindow(
+  from: Date | undefined,
+  to: Date | undefined,
+  field: string
+) {
+  if (from && to && from >= to) {
+    throw new ApiError(
+      400,
+      "VALIDATION_ERROR",
+      `${field} window starts after it ends`,
+      { field }
+    );
+  }
+}
+
+/**
+ * Validates list query parameters
+ *
+ * @throws ApiError 400 VALIDATION_ERROR - details name the offending field
+ */
+export function parseBloodRequestQuery(
+  params: URLSearchParams
+): BloodRequestListQuery {
+  const filter: BloodRequestFilter = {
+    status: parseList<RequestStatus>(
+      params,
+      "status",
+      isValidRequestStatus,
+      Object.values(RequestStatus)
+    ),
+    urgency: parseList<Urgency>(
+      params,
+      "urgency",
+      isValidUrgency,
+      URGENCY_LEVELS
+    ),
+    bloodGroup: parseList<BloodGroup>(
+      params,
+      "bloodGroup",
+      isValidBloodGroup,
+      Object.values(BloodGroup)
+    ),
+    fromDate: parseDate(params, "fromDate"),
+    toDate: parseWindowEnd(params, "toDate"),
+    requiredFrom: parseDate(params, "requiredFrom"),
+    requiredTo: parseWindowEnd(params, "requiredTo"),
+    requesterId: params.get("requesterId") || undefined,
+    hospitalId: params.get("hospitalId") || undefined,
+    bloodBankId: params.get("bloodBankId") || undefined,
+    includeDeleted: parseBoolean(params, "includeDeleted"),
+  };
+
+  checkWindow(filter.fromDate, filter.toDate, "createdAt");
+  checkWindow(filter.requiredFrom, filter.requiredTo, "requiredBy");
+
+  const sort = params.get("sort") || "createdAt";
+  if (!SORTABLE_FIELDS.includes(sort as SortField)) {
+    throw invalid("sort", sort, SORTABLE_FIELDS);
+  }
+
+  const order = params.get("order") || "desc";
+  if (order !== "asc" && order !== "desc") {
+    throw invalid("order", order, ["asc", "desc"]);
+  }
+
+  return {
+    filter,
+    sort: sort as SortField,
+    order,
+    page: parsePositiveInt(params, "page", 1),
+    limit: parsePositiveInt(params, "limit", 20, MAX_PAGE_SIZE),
+  };
+}
+
+/**
+ * Builds the Prisma where clause for a BloodRequestFilter
+ *
+ * Soft-deleted requests are excluded unless includeDeleted is set; callers
+ * must check the actor is an admin before setting it.
+ */
+export function buildBloodRequestWhere(
+  filter: BloodRequestFilter
+): Prisma.BloodRequestWhereInput {
+  const where: Prisma.BloodRequestWhereInput = {};
+
+  if (!filter.includeDeleted) where.deletedAt = null;
+
+  if (filter.status) where.status = { in: filter.status };
+  if (filter.urgency) where.urgency = { in: filter.urgency };
+  if (filter.bloodGroup) where.bloodGroup = { in: filter.bloodGroup };
+  if (filter.requesterId) where.requesterId = filter.requesterId;
+  if (filter.hospitalId) where.hospitalId = filter.hospitalId;
+  if (filter.bloodBankId) where.bloodBankId = filter.bloodBankId;
+
+  if (filter.fromDate || filter.toDate) {
+    where.createdAt = {
+      ...(filter.fromDate && { gte: filter.fromDate }),
+      ...(filter.toDate && { lt: filter.toDate }),
+    };
+  }
+
+  if (filter.requiredFrom || filter.requiredTo) {
+    where.requiredBy = {
+      ...(filter.requiredFrom && { gte: filter.requiredFrom }),
+      ...(filter.requiredTo && { lt: filter.requiredTo }),
+    };
+  }
+
+  return where;
+}
@@ -0,0 +1,232 @@
+/**
+ * Blood Request Schemas
+ *
+ * zod schemas for blood request bodies, built from BloodRequestInput and
+ * the Prisma enums so the API and the types stay in step. Validate with
+ * parseBody() from @/lib/validation.
+ *
+ * Schemas are strict: unknown fields are rejected instead of being dropped,
+ * so a misspelt or outdated field name fails loudly. `npm run test:contract`
+ * checks these fields against the BloodRequest model in schema.prisma.
+ */
+
+import { z } from "zod";
+import { BloodComponent, BloodGroup, Gender } from "@prisma/client";
+import { BloodRequestInput, URGENCY_LEVELS } from "@/types";
+import { dateInput, idInput } from "@/lib/validation";
+
+// One validator per BloodRequestInput field; adding a field to the type
+// without a validator here is a compile error
+const bloodRequestFields = {
+  bloodGroup: z.nativeEnum(BloodGroup),
+  component: z.nativeEnum(BloodComponent),
+  quantityNeeded: z
+    .number()
+    .int("Quantity needed must be a whole number of units")
+    .positive("Quantity needed must be greater than 0"),
+  urgency: z.enum(URGENCY_LEVELS),
+  patientName: z.string().trim().min(1, "Patient name is required"),
+  patientAge: z
+    .number()
+    .int("Patient age must be a whole number")
+    .min(0, "Patient age must be between 0 and 150")
+    .max(150, "Patient age must be between 0 and 150"),
+  patientGender: z.nativeEnum(Gender),
+  requiredBy: dateInput,
+  purpose: z.string().trim().min(1, "Purpose is required"),
+  medicalNotes: z.string(),
+  doctorName: z.string(),
+  doctorContact: z.string(),
+  hospitalId: idInput,
+  bloodBankId: idInput,
+} satisfies {
+  [K in keyof BloodRequestInput]-?: z.ZodType<
+    NonNullable<BloodRequestInput[K]>,
+    z.ZodTypeDef,
+    unknown
+  >;
+};
+
+// Optional column in a full replacement: missing or null clears it
+function cleared<T extends z.ZodTypeAny>(schema: T) {
+  return schema.nullish().transform((value) => value ?? null);
+}
+
+/**
+ * POST /api/blood-requests
+ */
+export const bloodRequestCreateSchema = z
+  .object({
+    requesterId: idInput,
+    bloodBankId: bloodRequestFields.bloodBankId,
+    bloodGroup: bloodRequestFields.bloodGroup,
+    component: bloodRequestFields.component.default("WHOLE_BLOOD"),
+    quantityNeeded: bloodRequestFields.quantityNeeded,
+    urgency: bloodRequestFields.urgency.default("NORMAL"),
+    patientName: bloodRequestFields.patientName,
+    patientAge: bloodRequestFields.patientAge,
+    patientGender: bloodRequestFields.patientGender.optional(),
+    requiredBy: bloodRequestFields.requiredBy,
+    purpose: bloodRequestFields.purpose,
+    medicalNotes: bloodRequestFields.medicalNotes.optional(),
+    doctorName: bloodRequestFields.doctorName.optional(),
+    doctorContact: bloodRequestFields.doctorContact.optional(),
+    hospitalId: bloodRequestFields.hospitalId.optional(),
+  })
+  .strict();
+
+// Status only changes through the lifecycle action endpoints
+const statusNotEditable = z
+  .never({
+    invalid_type_error:
+      "Status cannot be updated directly. Use the approve, fulfill, reject or cancel endpoints.",
+  })
+  .optional();
+
+/**
+ * PUT /api/blood-requests/[id]
+ *
+ * Full replacement of the editable fields: required fields must all be
+ * sent, and optional fields that are left out are cleared. The assigned
+ * blood bank is not editable because allocations depend on it.
+ */
+export const bloodRequestReplaceSchema = z
+  .object({
+    bloodGroup: bloodRequestFields.bloodGroup,
+    component: bloodRequestFields.component,
+    quantityNeeded: bloodRequestFields.quantityNeeded,
+    urgency: bloodRequestFields.urgency,
+    patientName: bloodRequestFields.patientName,
+    patientAge: bloodRequestFields.patientAge,
+    patientGender: cleared(bloodRequestFields.patientGender),
+    requiredBy: bloodRequestFields.requiredBy,
+    purpose: bloodRequestFields.purpose,
+    medicalNotes: cleared(bloodRequestFields.medicalNotes),
+    doctorName: cleared(bloodRequestFields.doctorName),
+    doctorContact: cleared(bloodRequestFields.doctorContact),
+    hospitalId: cleared(bloodRequestFields.hospitalId),
+    status: statusNotEditable,
+  })
+  .strict();
+
+/**
+ * PATCH /api/blood-requests/[id] (application/merge-patch+json)
+ *
+ * JSON Merge Patch (RFC 7396): fields left out are unchanged and null
+ * clears an optional field. Required fields cannot be cleared. At least
+ * one field must be sent.
+ */
+export const bloodRequestPatchSchema = z
+  .object({
+    bloodGroup: bloodRequestFields.bloodGroup.optional(),
+    component: bloodRequestFields.component.optional(),
+    quantityNeeded: bloodRequestFields.quantityNeeded.optional(),
+    urgency: bloodRequestFields.urgency.optional(),
+    patientName: bloodRequestFields.patientName.optional(),
+    patientAge: bloodRequestFields.patientAge.optional(),
+    patientGender: bloodRequestFields.patientGender.nullish(),
+    requiredBy: bloodRequestFields.requiredBy.optional(),
+    purpose: bloodRequestFields.purpose.optional(),
+    medicalNotes: bloodRequestFields.medicalNotes.nullish(),
+    doctorName: bloodRequestFields.doctorName.nullish(),
+    doctorContact: bloodRequestFields.doctorContact.nullish(),
+    hospitalId: bloodRequestFields.hospitalId.nullish(),
+    status: statusNotEditable,
+  })
+  .strict()
+  .refine(
+    (input) => Object.values(input).some((value) => value !== undefined),
+    "No fields provided for update"
+  );
+
+/**
+ * POST /api/blood-requests/[id]/approve and /restore
+ */
+export const transitionSchema = z
+  .object({
+    actorId: idInput,
+  })
+  .strict();
+
+/**
+ * POST /api/blood-requests/[id]/cancel
+ */
+export const cancelSchema = transitionSchema.extend({
+  reason: z.string().trim().min(1, "Reason cannot be empty").optional(),
+});
+
+/**
+ * DELETE /api/blood-requests/[id]
+ */
+export const deleteSchema = transitionSchema.extend({
+  reason: z.string().trim().min(1, "Reason cannot be empty").optional(),
+});
+
+/**
+ * POST /api/blood-requests/[id]/reject
+ */
+export const rejectSchema = transitionSchema.extend({
+  reason: z.string().trim().min(1, "A reason is required to reject"),
+});
+
+/**
+ * POST /api/blood-requests/[id]/fulfill
+ */
+export const fulfillSchema = transitionSchema.extend({
+  issuedBloodGroup: z.nativeEnum(BloodGroup).optional(),
+  allowSubstitution: z.boolean().optional(),
+  allocations: z
+    .array(
+      z
+        .object({
+          bloodBankId: idInput,
+          quantity: z
+            .number()
+            .int("Quantity must be a whole number of units")
+            .positive("Quantity must be greater than 0"),
+          issuedBloodGroup: z.nativeEnum(BloodGroup).optional(),
+        })
+        .strict()
+    )
+    .min(1, "Allocations cannot be empty")
+    .optional(),
+  minShelfLifeDays: z
+    .number()
+    .min(0, "Minimum shelf life cannot be negative")
+    .optional(),
+});
+
+export const BULK_ACTIONS = ["approve", "reject", "cancel"] as const;
+export const MAX_BULK_IDS = 100;
+
+/**
+ * POST /api/blood-requests/bulk
+ */
+export const bulkTransitionSchema = transitionSchema
+  .extend({
+    action: z.enum(BULK_ACTIONS),
+    ids: z
+      .array(idInput)
+      .min(1, "At least one id is required")
+      .max(MAX_BULK_IDS, `At most ${MAX_BULK_IDS} ids per request`)
+      .refine((ids) => new Set(ids).size === ids.length, "Ids must not repeat"),
+    reason: z.string().trim().min(1, "Reason cannot be empty").optional(),
+  })
+  .refine((input) => input.action !== "reject" || input.reason, {
+    message: "A reason is required to reject",
+    path: ["reason"],
+  });
+
+/**
+ * POST /api/blood-requests/[id]/comments
+ */
+export const commentSchema = transitionSchema.extend({
+  body: z
+    .string()
+    .trim()
+    .min(1, "Comment cannot be empty")
+    .max(5000, "Comment must be at most 5000 characters"),
+  internal: z.boolean().default(false),
+});
+
+export type BloodRequestCreateBody = z.infer<typeof bloodRequestCreateSchema>;
@@ -0,0 +1,26 @@
+/**
+ * Blood Unit Schemas
+ *
+ * zod schemas for request bodies that act on blood units. Validate with
+ * parseBody() from @/lib/validation.
+ */
+
+import { z } from "zod";
+import { SEPARABLE_COMPONENTS } from "@/lib/blood-units";
+import { idInput } from "@/lib/validation";
+
+/**
+ * POST /api/donations/[id]/separate
+ */
+export const separationSchema = z
+  .object({
+    actorId: idInput,
+    components: z
+      .array(z.enum(SEPARABLE_COMPONENTS))
+      .min(1, "At least one component is required")
+      .refine(
+        (components) => new Set(components).size === components.length,
+        "Components must not repeat"
+      ),
+  })
+  .strict();
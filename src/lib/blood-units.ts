@@ -0,0 +1,511 @@
+/**
+ * Unit-Level Blood Stock
+ *
+ * Every bag of blood is a BloodUnit, created from the completed Donation it
+ * was collected in and identified by the donation's unitSerialNumber. A
+ * unit is AVAILABLE on the shelf, may be RESERVED for a request, and ends
+ * ISSUED, EXPIRED or DISCARDED. bloodBankId is whoever holds it now.
+ *
+ * A donation starts as one WHOLE_BLOOD unit. separateDonation splits it
+ * into component units (red cells, platelets, plasma, cryo), each with its
+ * own shelf life counted from collection; the whole blood unit is then
+ * SEPARATED and leaves stock.
+ *
+ * BloodInventory.quantity stays the per-bank, per-group, per-component
+ * total the rest of the app reads, and is kept equal to the number of
+ * AVAILABLE units:
+ *
+ * - createUnitFromDonation and separateDonation add new units to the total
+ * - decrementInventory (src/lib/inventory.ts) marks units ISSUED
+ * - reconcileInventory expires units past their date, creates units for
+ *   completed donations that have none, and corrects totals that have
+ *   drifted from the units
+ *
+ * Stock recorded before units were tracked was given placeholder units
+ * with LEGACY- serials by the legacy_blood_units migration, so it counts as
+ * AVAILABLE units and reconciliation leaves it in place.
+ *
+ * Run the reconciliation from cron with `npm run inventory:reconcile`.
+ */
+
+import {
+  BloodComponent,
+  BloodGroup,
+  BloodUnitStatus,
+  DonationStatus,
+  Prisma,
+  UserRole,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/errors";
+import { requireActor } from "@/lib/actors";
+import { evaluateInventoryAlert } from "@/lib/inventory-alerts";
+import {
+  incrementInventory,
+  lockInventory,
+  oldestAvailableExpiry,
+  removeUnits,
+} from "@/lib/inventory";
+
+// Days from collection until a unit expires. Whole blood is CPDA-1 and
+// is used when a donation has no expiryDate; red cells are in SAGM.
+export const COMPONENT_SHELF_LIFE_DAYS: Record<BloodComponent, number> = {
+  WHOLE_BLOOD: 35,
+  RED_CELLS: 42,
+  PLATELETS: 5,
+  PLASMA: 365,
+  CRYO: 365,
+};
+
+// Components a whole blood unit can be separated into
+export const SEPARABLE_COMPONENTS = [
+  BloodComponent.RED_CELLS,
+  BloodComponent.PLATELETS,
+  BloodComponent.PLASMA,
+  BloodComponent.CRYO,
+] as const;
+
+export type SeparableComponent = (typeof SEPARABLE_COMPONENTS)[number];
+
+// Suffix added to the whole blood serial for each component unit
+const COMPONENT_SERIAL_SUFFIX: Record<SeparableComponent, string> = {
+  RED_CELLS: "RBC",
+  PLATELETS: "PLT",
+  PLASMA: "FFP",
+  CRYO: "CRYO",
+};
+
+// Roles that may separate donations
+export const SEPARATION_ROLES: UserRole[] = [
+  UserRole.BLOOD_BANK,
+  UserRole.ADMIN,
+];
+
+// Statuses a unit can still expire from
+const SHELF_STATUSES: BloodUnitStatus[] = [
+  BloodUnitStatus.AVAILABLE,
+  BloodUnitStatus.RESERVED,
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type InventoryDrift = {
+  bloodBankId: string;
+  bloodGroup: BloodGroup;
+  component: BloodComponent;
+  recorded: { quantity: number; expiryDate: Date | null };
+  actual: { quantity: number; expiryDate: Date | null }; // From the units
+};
+
+export type ReconcileOptions = {
+  now?: Date;
+  dryRun?: boolean; // Report what would change without writing
+};
+
+export type ReconcileResult = {
+  checkedAt: Date;
+  dryRun: boolean;
+  unitsCreated: number; // Completed donations that had no unit
+  unitsExpired: number;
+  corrected: number; // Inventory rows rewritten from their units
+  drift: InventoryDrift[];
+};
+
+// When a unit of this component collected at `collectedAt` expires
+export function shelfLifeEnd(component: BloodComponent, collectedAt: Date) {
+  return new Date(
+    collectedAt.getTime() + COMPONENT_SHELF_LIFE_DAYS[component] * DAY_MS
+  );
+}
+
+/**
+ * Creates the stock unit for a completed donation and adds it to the
+ * collecting bank's inventory
+ *
+ * Must run inside a transaction so the unit and the total change together.
+ *
+ * @throws ApiError 404 NOT_FOUND - No such donation
+ * @throws ApiError 409 DONATION_NOT_COMPLETED - Donation hasn't happened
+ * @throws ApiError 409 UNIT_SERIAL_MISSING - No unitSerialNumber recorded
+ * @throws ApiError 409 UNIT_ALREADY_EXISTS - A unit has this serial already
+ */
+export async function createUnitFromDonation(
+  tx: Prisma.TransactionClient,
+  donationId: string,
+  now: Date = new Date()
+) {
+  const donation = await tx.donation.findUnique({
+    where: { id: donationId },
+  });
+
+  if (!donation) {
+    throw new ApiError(404, "NOT_FOUND", "Donation not found");
+  }
+
+  if (donation.status !== DonationStatus.COMPLETED) {
+    throw new ApiError(
+      409,
+      "DONATION_NOT_COMPLETED",
+      `Cannot create a blood unit from a ${donation.status} donation`,
+      { donationId, status: donation.status }
+    );
+  }
+
+  if (!donation.unitSerialNumber) {
+    throw new ApiError(
+      409,
+      "UNIT_SERIAL_MISSING",
+      "Donation has no unit serial number",
+      { donationId }
+    );
+  }
+
+  const existing = await tx.bloodUnit.findUnique({
+    where: { serialNumber: donation.unitSerialNumber },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new ApiError(
+      409,
+      "UNIT_ALREADY_EXISTS",
+      `Blood unit ${donation.unitSerialNumber} already exists`,
+      { donationId, unitId: existing.id }
+    );
+  }
+
+  const collectedAt = donation.donationDate ?? donation.scheduledDate;
+  const expiresAt =
+    donation.expiryDate ??
+    shelfLifeEnd(BloodComponent.WHOLE_BLOOD, collectedAt);
+  const expired = expiresAt <= now;
+
+  const unit = await tx.bloodUnit.create({
+    data: {
+      serialNumber: donation.unitSerialNumber,
+      bloodGroup: donation.bloodGroup,
+      component: BloodComponent.WHOLE_BLOOD,
+      collectedAt,
+      expiresAt,
+      status: expired ? BloodUnitStatus.EXPIRED : BloodUnitStatus.AVAILABLE,
+      donationId: donation.id,
+      bloodBankId: donation.bloodBankId,
+    },
+  });
+
+  if (!expired) {
+    await incrementInventory(tx, {
+      bloodBankId: unit.bloodBankId,
+      bloodGroup: unit.bloodGroup,
+      component: unit.component,
+      quantity: 1,
+      expiryDate: unit.expiresAt,
+    });
+  }
+
+  return unit;
+}
+
+/**
+ * Splits a donation's whole blood unit into component units
+ *
+ * The whole blood unit must still be AVAILABLE. It is marked SEPARATED and
+ * taken out of whole blood stock, and each component becomes a unit with
+ * serial <whole blood serial>-<RBC|PLT|FFP|CRYO>, expiring per
+ * COMPONENT_SHELF_LIFE_DAYS from the original collection time.
+ *
+ * @throws ApiError 403 FORBIDDEN - Actor is not blood bank staff or admin
+ * @throws ApiError 404 NOT_FOUND - Actor, donation or its unit not found
+ * @throws ApiError 409 UNIT_NOT_AVAILABLE - Already issued, separated...
+ * @throws ApiError 409 COMPONENT_EXPIRED - A component's shelf life has
+ *                      already run out since collection
+ */
+export async function separateDonation(
+  donationId: string,
+  { actorId, components }: { actorId: string; components: SeparableComponent[] }
+) {
+  const actor = await requireActor(actorId);
+
+  if (!SEPARATION_ROLES.includes(actor.role)) {
+    throw new ApiError(
+      403,
+      "FORBIDDEN",
+      "Only blood bank staff and admins can separate donations"
+    );
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const source = await tx.bloodUnit.findFirst({
+      where: { donationId, component: BloodComponent.WHOLE_BLOOD },
+    });
+
+    if (!source) {
+      throw new ApiError(
+        404,
+        "NOT_FOUND",
+        "No whole blood unit found for this donation"
+      );
+    }
+
+    const now = new Date();
+    const expired = components.filter(
+      (component) => shelfLifeEnd(component, source.collectedAt) <= now
+    );
+
+    if (expired.length > 0) {
+      throw new ApiError(
+        409,
+        "COMPONENT_EXPIRED",
+        `Too long since collection to separate ${expired.join(", ")}`,
+        { collectedAt: source.collectedAt, components: expired }
+      );
+    }
+
+    const removed = await removeUnits(
+      tx,
+      {
+        bloodBankId: source.bloodBankId,
+        bloodGroup: source.bloodGroup,
+        component: source.component,
+      },
+      [source.id],
+      BloodUnitStatus.SEPARATED
+    );
+
+    if (removed === 0) {
+      throw new ApiError(
+        409,
+        "UNIT_NOT_AVAILABLE",
+        `Blood unit ${source.serialNumber} is ${source.status} and cannot be separated`,
+        { unitId: source.id, status: source.status }
+      );
+    }
+
+    const units = [];
+    for (const component of components) {
+      const unit = await tx.bloodUnit.create({
+        data: {
+          serialNumber: `${source.serialNumber}-${COMPONENT_SERIAL_SUFFIX[component]}`,
+          bloodGroup: source.bloodGroup,
+          component,
+          collectedAt: source.collectedAt,
+          expiresAt: shelfLifeEnd(component, source.collectedAt),
+          donationId: source.donationId,
+          bloodBankId: source.bloodBankId,
+        },
+      });
+
+      await incrementInventory(tx, {
+        bloodBankId: unit.bloodBankId,
+        bloodGroup: unit.bloodGroup,
+        component,
+        quantity: 1,
+        expiryDate: unit.expiresAt,
+      });
+
+      units.push(unit);
+    }
+
+    await tx.auditLog.create({
+      data: {
+        entityType: "BloodUnit",
+        entityId: source.id,
+        action: "UNIT_SEPARATED",
+        changes: {
+          serialNumber: source.serialNumber,
+          components: units.map((unit) => unit.serialNumber),
+        },
+        performedBy: actor.id,
+      },
+    });
+
+    return {
+      source: { ...source, status: BloodUnitStatus.SEPARATED },
+      components: units,
+    };
+  });
+}
+
+const stockKey = (
+  bloodBankId: string,
+  bloodGroup: BloodGroup,
+  component: BloodComponent
+) => `${bloodBankId}:${bloodGroup}:${component}`;
+
+/**
+ * Compares every inventory row with the units behind it
+ */
+async function findDrift(now: Date): Promise<InventoryDrift[]> {
+  const [inventory, units] = await Promise.all([
+    prisma.bloodInventory.findMany({
+      select: {
+        bloodBankId: true,
+        bloodGroup: true,
+        component: true,
+        quantity: true,
+        expiryDate: true,
+      },
+    }),
+    prisma.bloodUnit.groupBy({
+      by: ["bloodBankId", "bloodGroup", "component"],
+      where: { status: BloodUnitStatus.AVAILABLE, expiresAt: { gt: now } },
+      _count: { _all: true },
+      _min: { expiresAt: true },
+    }),
+  ]);
+
+  const stock = new Map<string, InventoryDrift>();
+
+  for (const row of inventory) {
+    stock.set(stockKey(row.bloodBankId, row.bloodGroup, row.component), {
+      bloodBankId: row.bloodBankId,
+      bloodGroup: row.bloodGroup,
+      component: row.component,
+      recorded: { quantity: row.quantity, expiryDate: row.expiryDate },
+      actual: { quantity: 0, expiryDate: null },
+    });
+  }
+
+  for (const group of units) {
+    const key = stockKey(group.bloodBankId, group.bloodGroup, group.component);
+    const entry = stock.get(key) ?? {
+      bloodBankId: group.bloodBankId,
+      bloodGroup: group.bloodGroup,
+      component: group.component,
+      recorded: { quantity: 0, expiryDate: null },
+      actual: { quantity: 0, expiryDate: null },
+    };
+
+    entry.actual = {
+      quantity: group._count._all,
+      expiryDate: group._min.expiresAt,
+    };
+    stock.set(key, entry);
+  }
+
+  return Array.from(stock.values()).filter(
+    (entry) =>
+      entry.recorded.quantity !== entry.actual.quantity ||
+      entry.recorded.expiryDate?.getTime() !==
+        entry.actual.expiryDate?.getTime()
+  );
+}
+
+/**
+ * Rewrites one inventory row from its units, under the row lock
+ */
+async function correctInventory(
+  { bloodBankId, bloodGroup, component }: InventoryDrift,
+  now: Date
+) {
+  const stock = { bloodBankId, bloodGroup, component };
+
+  await prisma.$transaction(async (tx) => {
+    const locked = await lockInventory(tx, stock);
+
+    // Recount now that concurrent stock changes are shut out
+    const quantity = await tx.bloodUnit.count({
+      where: { ...stock, status: BloodUnitStatus.AVAILABLE },
+    });
+    const expiryDate = await oldestAvailableExpiry(tx, stock);
+
+    const inventory = await tx.bloodInventory.upsert({
+      where: { bloodBankId_bloodGroup_component: stock },
+      update: { quantity, expiryDate, lastUpdated: now },
+      create: { ...stock, quantity, expiryDate },
+    });
+
+    await evaluateInventoryAlert(tx, inventory.id, now);
+
+    if ((locked?.quantity ?? 0) !== quantity) {
+      await tx.auditLog.create({
+        data: {
+          entityType: "BloodInventory",
+          entityId: inventory.id,
+          action: "INVENTORY_RECONCILED",
+          changes: {
+            from: locked?.quantity ?? null,
+            to: quantity,
+            system: true,
+          },
+        },
+      });
+    }
+  });
+}
+
+/**
+ * Brings BloodInventory in line with the units
+ *
+ * A dry run counts the units that would be created or expired and reports
+ * drift against the units as they stand, so donations without a unit yet
+ * are not part of its `actual` figures.
+ */
+export async function reconcileInventory({
+  now = new Date(),
+  dryRun = false,
+}: ReconcileOptions = {}): Promise<ReconcileResult> {
+  const donations = await prisma.donation.findMany({
+    where: {
+      status: DonationStatus.COMPLETED,
+      unitSerialNumber: { not: null },
+      units: { none: {} },
+    },
+    select: { id: true },
+    orderBy: { donationDate: "asc" },
+  });
+
+  const expiredWhere = {
+    status: { in: SHELF_STATUSES },
+    expiresAt: { lte: now },
+  };
+
+  const result: ReconcileResult = {
+    checkedAt: now,
+    dryRun,
+    unitsCreated: donations.length,
+    unitsExpired: 0,
+    corrected: 0,
+    drift: [],
+  };
+
+  if (dryRun) {
+    result.unitsExpired = await prisma.bloodUnit.count({
+      where: expiredWhere,
+    });
+    result.drift = await findDrift(now);
+    return result;
+  }
+
+  result.unitsCreated = 0;
+
+  for (const donation of donations) {
+    try {
+      await prisma.$transaction((tx) =>
+        createUnitFromDonation(tx, donation.id, now)
+      );
+      result.unitsCreated++;
+    } catch (error) {
+      // The serial was already taken by another unit; leave it for staff
+      if (error instanceof ApiError && error.code === "UNIT_ALREADY_EXISTS") {
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  const { count } = await prisma.bloodUnit.updateMany({
+    where: expiredWhere,
+    data: { status: BloodUnitStatus.EXPIRED, statusChangedAt: now },
+  });
+  result.unitsExpired = count;
+
+  result.drift = await findDrift(now);
+
+  for (const entry of result.drift) {
+    await correctInventory(entry, now);
+    result.corrected++;
+  }
+
+  return result;
+}
@@ -26,3 +26,53 @@ export function getDatabaseUrl() {
   }
   return url;
 }
+
+export function getIdempotencyWindowHours() {
+  // Server-only; how long a retried POST with the same Idempotency-Key replays
+  // the original response. Falls back to 24 hours when unset or invalid.
+  const hours = Number(process.env.IDEMPOTENCY_WINDOW_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : 24;
+}
+
+export function getRequestExpiryGraceHours() {
+  // Server-only; how long after requiredBy an open blood request is left
+  // before the expiry sweep cancels or flags it. Defaults to 0 (immediately).
+  const hours = Number(process.env.REQUEST_EXPIRY_GRACE_HOURS);
+  return Number.isFinite(hours) && hours >= 0 ? hours : 0;
+}
+
+export function getInternalApiToken() {
+  // Server-only shared secret for /api/internal/* routes called by cron jobs.
+  // Returns null when unset so those routes refuse every call.
+  return process.env.INTERNAL_API_TOKEN || null;
+}
+
+export function getUrgencyEscalationRules() {
+  // Server-only; comma-separated FROM:TO:HOURS rules for the escalation sweep,
+  // e.g. "NORMAL:URGENT:24,URGENT:CRITICAL:6". Returns null when unset so the
+  // defaults apply; "none" disables escalation.
+  return process.env.URGENCY_ESCALATION_RULES || null;
+}
+
+export function getUrgencySlaTargets() {
+  // Server-only; comma-separated LEVEL:APPROVAL_HOURS:FULFILLMENT_HOURS SLA
+  // targets, e.g. "CRITICAL:1:4,URGENT:4:24". Levels left out keep their
+  // defaults (see src/lib/request-sla.ts). Returns null when unset.
+  return process.env.URGENCY_SLA_TARGETS || null;
+}
+
+export function getUnitShelfLifeRules() {
+  // Server-only; comma-separated KEYWORD:DAYS rules, e.g. "neonatal:5". A
+  // request whose purpose contains KEYWORD is only issued blood units with
+  // at least DAYS left before expiry. Returns null when unset (no rules).
+  return process.env.UNIT_MIN_SHELF_LIFE_BY_PURPOSE || null;
+}
+
+export function getInventoryCriticalPercent() {
+  // Server-only; stock at or below this percentage of minimumQuantity raises
+  // a CRITICAL alert instead of LOW. Falls back to 50 when unset or invalid.
+  const percent = Number(process.env.INVENTORY_CRITICAL_PERCENT);
+  return Number.isFinite(percent) && percent >= 0 && percent <= 100
+    ? percent
+    : 50;
+}
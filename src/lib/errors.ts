@@ -0,0 +1,43 @@
+/**
+ * API Error Helpers
+ *
+ * Domain logic in src/lib throws ApiError so route handlers can translate
+ * failures into the standard error envelope used across the API:
+ *
+ * { success: false, error: { code, message, details? } }
+ *
+ * Usage:
+ * throw new ApiError(404, "NOT_FOUND", "Blood request not found");
+ */
+
+import { NextResponse } from "next/server";
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: Record<string, unknown>,
+    public readonly headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Converts an ApiError into a JSON response with the matching HTTP status
+ */
+export function apiErrorResponse(error: ApiError) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details }),
+      },
+    },
+    { status: error.status, headers: error.headers }
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * ETags and If-Match (Optimistic Concurrency)
+ *
+ * A blood request's ETag is derived from its updatedAt timestamp, which
+ * Prisma bumps on every write. Clients send the ETag they last saw in
+ * If-Match; if the record has changed since, the write is refused with
+ * 412 and the current version so the UI can offer a merge.
+ *
+ * If-Match is optional: writes without it behave as before.
+ *
+ * Usage:
+ * if (!ifMatches(request.headers.get("If-Match"), current)) {
+ *   throw preconditionFailed(current);
+ * }
+ */
+
+import { ApiError } from "@/lib/errors";
+
+export type Versioned = { updatedAt: Date };
+
+export function etagFor(record: Versioned): string {
+  return `"${record.updatedAt.getTime().toString(36)}"`;
+}
+
+/**
+ * Does an If-Match header value match the record's current ETag?
+ *
+ * Accepts `*`, a single ETag or a comma-separated list. Weak validators
+ * (W/"...") are compared by their opaque value.
+ */
+export function ifMatches(header: string | null, record: Versioned): boolean {
+  if (header === null) return true;
+
+  const current = etagFor(record);
+
+  return header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === current);
+}
+
+/**
+ * 412 carrying the current representation and its ETag
+ */
+export function preconditionFailed(current: Versioned) {
+  return new ApiError(
+    412,
+    "PRECONDITION_FAILED",
+    "The record was changed by someone else. Review the current version and try again.",
+    { current, etag: etagFor(current) },
+    { ETag: etagFor(current) }
+  );
+}
@@ -0,0 +1,245 @@
+/**
+ * Idempotency Keys for Creation Endpoints
+ *
+ * Clients on unreliable networks retry POSTs. When a request carries an
+ * `Idempotency-Key` header, the first successful response is stored and a
+ * retry with the same key and payload replays it instead of creating a
+ * second record. Reusing a key with a different payload returns 422.
+ *
+ * Keys are scoped per endpoint and expire after IDEMPOTENCY_WINDOW_HOURS
+ * (see src/lib/env.ts). Failed requests release their key so the client
+ * can retry with it. A request holds its key on a short lease that it
+ * renews while the handler runs, however long that takes; if the process
+ * dies before finishing, the lease stops being renewed and a retry takes
+ * the key over once it has passed instead of getting 409 for the whole
+ * window.
+ *
+ * Usage:
+ * return withIdempotency(request, "POST /api/blood-requests", body, () =>
+ *   createSomething(body)
+ * );
+ */
+
+import { createHash } from "crypto";
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/errors";
+import { getIdempotencyWindowHours } from "@/lib/env";
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+export const REPLAYED_HEADER = "Idempotent-Replayed";
+
+const MAX_KEY_LENGTH = 255;
+
+// How long a lease lasts without renewal before a retry may take over
+const LEASE_MS = 30 * 1000;
+const LEASE_RENEW_MS = LEASE_MS / 3;
+
+// Stable JSON (sorted object keys) so property order does not change the hash
+export function stableStringify(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+export function hashPayload(payload: unknown): string {
+  return createHash("sha256").update(stableStringify(payload)).digest("hex");
+}
+
+type HeldKey = {
+  scope: string;
+  key: string;
+  responseStatus: null;
+  lockedUntil: Date;
+};
+
+/**
+ * Renews a claimed key's lease until stopped
+ *
+ * Each renewal is guarded on the lease it replaces, so a request that has
+ * lost its key (e.g. after a long pause) stops renewing instead of taking
+ * it back. stop() waits for any renewal in flight and returns the guard
+ * for the lease still held.
+ */
+function renewLease(scope: string, key: string, lockedUntil: Date) {
+  let held: HeldKey = { scope, key, responseStatus: null, lockedUntil };
+  let renewing: Promise<void> = Promise.resolve();
+
+  const timer = setInterval(() => {
+    renewing = renewing.then(async () => {
+      const next = new Date(Date.now() + LEASE_MS);
+
+      try {
+        const { count } = await prisma.idempotencyKey.updateMany({
+          where: held,
+          data: { lockedUntil: next },
+        });
+
+        if (count > 0) {
+          held = { ...held, lockedUntil: next };
+        } else {
+          clearInterval(timer);
+        }
+      } catch (error) {
+        console.error("Error renewing idempotency key lease:", error);
+      }
+    });
+  }, LEASE_RENEW_MS);
+
+  return {
+    async stop() {
+      clearInterval(timer);
+      await renewing;
+      return held;
+    },
+  };
+}
+
+/**
+ * Runs `handler` at most once per Idempotency-Key
+ *
+ * Without the header the handler simply runs.
+ *
+ * @throws ApiError 400 - Key is empty or too long
+ * @throws ApiError 409 - A request with this key is still being processed
+ * @throws ApiError 422 - Key was already used with a different payload
+ */
+export async function withIdempotency(
+  request: Request,
+  scope: string,
+  payload: unknown,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER);
+
+  if (key === null) return handler();
+
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    throw new ApiError(
+      400,
+      "VALIDATION_ERROR",
+      `${IDEMPOTENCY_HEADER} must be 1-${MAX_KEY_LENGTH} characters`,
+      { field: IDEMPOTENCY_HEADER }
+    );
+  }
+
+  const requestHash = hashPayload(payload);
+  const now = new Date();
+  const lockedUntil = new Date(now.getTime() + LEASE_MS);
+
+  // Keys past their window can be used again
+  await prisma.idempotencyKey.deleteMany({
+    where: { scope, key, expiresAt: { lte: now } },
+  });
+
+  // Claim the key; the unique (scope, key) index lets only one request win
+  try {
+    await prisma.idempotencyKey.create({
+      data: {
+        scope,
+        key,
+        requestHash,
+        lockedUntil,
+        expiresAt: new Date(
+          now.getTime() + getIdempotencyWindowHours() * 60 * 60 * 1000
+        ),
+      },
+    });
+  } catch (error) {
+    if (
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== "P2002"
+    ) {
+      throw error;
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { scope_key: { scope, key } },
+    });
+
+    if (existing && existing.requestHash !== requestHash) {
+      throw new ApiError(
+        422,
+        "IDEMPOTENCY_KEY_REUSED",
+        `${IDEMPOTENCY_HEADER} was already used with a different request body`
+      );
+    }
+
+    if (existing && existing.responseStatus !== null) {
+      return NextResponse.json(existing.responseBody, {
+        status: existing.responseStatus,
+        headers: { [REPLAYED_HEADER]: "true" },
+      });
+    }
+
+    // Once the lease has passed, the request holding the key is presumed
+    // dead and this retry takes over; the guard on the old lease lets only
+    // one retry win
+    const { count } = existing
+      ? await prisma.idempotencyKey.updateMany({
+          where: {
+            scope,
+            key,
+            responseStatus: null,
+            lockedUntil: existing.lockedUntil,
+            OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }],
+          },
+          data: { lockedUntil },
+        })
+      : { count: 0 };
+
+    if (count === 0) {
+      throw new ApiError(
+        409,
+        "IDEMPOTENCY_KEY_IN_PROGRESS",
+        `A request with this ${IDEMPOTENCY_HEADER} is still being processed`
+      );
+    }
+  }
+
+  // Only touch the key while this request still holds its lease
+  const lease = renewLease(scope, key, lockedUntil);
+  const release = (held: HeldKey) =>
+    prisma.idempotencyKey.deleteMany({ where: held });
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    await release(await lease.stop());
+    throw error;
+  }
+
+  const held = await lease.stop();
+
+  // Only successful responses are replayed; failures can be retried
+  if (!response.ok) {
+    await release(held);
+    return response;
+  }
+
+  await prisma.idempotencyKey.updateMany({
+    where: held,
+    data: {
+      responseStatus: response.status,
+      responseBody: await response.clone().json(),
+      lockedUntil: null,
+    },
+  });
+
+  return response;
+}
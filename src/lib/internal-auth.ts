@@ -0,0 +1,38 @@
+/**
+ * Internal Route Authentication
+ *
+ * Routes under /api/internal are triggered by scheduled jobs, not users.
+ * Callers send the shared secret from INTERNAL_API_TOKEN in the
+ * X-Internal-Token header. When the variable is unset every call is
+ * refused, so the routes are closed by default.
+ */
+
+import { timingSafeEqual } from "crypto";
+import { ApiError } from "@/lib/errors";
+import { getInternalApiToken } from "@/lib/env";
+
+export const INTERNAL_TOKEN_HEADER = "X-Internal-Token";
+
+/**
+ * @throws ApiError 401 - Token missing, wrong, or not configured
+ */
+export function requireInternalToken(request: Request) {
+  const expected = getInternalApiToken();
+  const received = request.headers.get(INTERNAL_TOKEN_HEADER);
+
+  const expectedBytes = Buffer.from(expected ?? "");
+  const receivedBytes = Buffer.from(received ?? "");
+
+  const valid =
+    expected !== null &&
+    receivedBytes.length === expectedBytes.length &&
+    timingSafeEqual(receivedBytes, expectedBytes);
+
+  if (!valid) {
+    throw new ApiError(
+      401,
+      "UNAUTHORIZED",
+      `A valid ${INTERNAL_TOKEN_HEADER} header is required`
+    );
+  }
+}
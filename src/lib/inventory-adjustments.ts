@@ -0,0 +1,394 @@
+/**
+ * Blood Inventory Adjustments
+ *
+ * Staff change stock outside the request workflow through adjustments,
+ * each with a reason. Quantity is never written directly: an adjustment
+ * acts on BloodUnits and the total follows through the helpers in
+ * src/lib/inventory.ts, so it keeps matching the AVAILABLE units.
+ *
+ * - DONATION_RECEIVED: creates units from completed donations
+ * - ISSUED:            issues units first-expiry-first-out
+ * - EXPIRED:           marks the listed units EXPIRED (past their expiry)
+ * - DAMAGED:           marks the listed units DISCARDED
+ * - TRANSFER:          moves the listed units to another blood bank
+ * - COUNT_CORRECTION:  checks a physical count against the units on
+ *                      record, discards the listed units the count did
+ *                      not find, and fixes a total that has drifted
+ *
+ * Each adjustment is recorded as an InventoryAdjustment with the quantity
+ * before and after; a transfer is recorded on both inventory rows.
+ */
+
+import { BloodUnitStatus, Prisma, UserRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/errors";
+import { requireActor } from "@/lib/actors";
+import { createUnitFromDonation } from "@/lib/blood-units";
+import { evaluateInventoryAlert } from "@/lib/inventory-alerts";
+import {
+  StockKey,
+  decrementInventory,
+  lockInventories,
+  lockInventory,
+  oldestAvailableExpiry,
+  removeUnits,
+  transferUnits,
+} from "@/lib/inventory";
+import { InventoryAdjustmentInput } from "@/types";
+
+type Db = Prisma.TransactionClient;
+
+// Roles that may adjust stock
+export const ADJUSTMENT_ROLES: UserRole[] = [
+  UserRole.BLOOD_BANK,
+  UserRole.ADMIN,
+];
+
+/**
+ * Finds units of this stock by serial number, all still AVAILABLE
+ *
+ * @throws ApiError 404 UNIT_NOT_FOUND - A serial is not in this stock
+ * @throws ApiError 409 UNIT_NOT_AVAILABLE - A unit already left the shelf
+ */
+async function findShelfUnits(db: Db, stock: StockKey, serials: string[]) {
+  const units = await db.bloodUnit.findMany({
+    where: { serialNumber: { in: serials }, ...stock },
+    select: { id: true, serialNumber: true, status: true, expiresAt: true },
+  });
+
+  const missing = serials.filter(
+    (serial) => !units.some((unit) => unit.serialNumber === serial)
+  );
+
+  if (missing.length > 0) {
+    throw new ApiError(
+      404,
+      "UNIT_NOT_FOUND",
+      `Units not found in this stock: ${missing.join(", ")}`,
+      { serialNumbers: missing }
+    );
+  }
+
+  const unavailable = units.filter(
+    (unit) => unit.status !== BloodUnitStatus.AVAILABLE
+  );
+
+  if (unavailable.length > 0) {
+    throw new ApiError(
+      409,
+      "UNIT_NOT_AVAILABLE",
+      `Units are no longer on the shelf: ${unavailable
+        .map((unit) => unit.serialNumber)
+        .join(", ")}`,
+      {
+        units: unavailable.map(({ serialNumber, status }) => ({
+          serialNumber,
+          status,
+        })),
+      }
+    );
+  }
+
+  return units;
+}
+
+// A unit changed status between the lookup and the update
+function unitsChanged() {
+  return new ApiError(
+    409,
+    "UNIT_NOT_AVAILABLE",
+    "Some units left the shelf while the adjustment was being made; try again"
+  );
+}
+
+/**
+ * Makes the stock change for one adjustment
+ *
+ * @returns Serial numbers of the units received, removed or moved
+ */
+async function applyAdjustment(
+  tx: Db,
+  inventoryId: string,
+  stock: StockKey,
+  input: InventoryAdjustmentInput,
+  now: Date
+): Promise<string[]> {
+  switch (input.reason) {
+    case "DONATION_RECEIVED": {
+      const serials = [];
+
+      for (const donationId of input.donationIds) {
+        const unit = await createUnitFromDonation(tx, donationId, now);
+
+        if (
+          unit.bloodBankId !== stock.bloodBankId ||
+          unit.bloodGroup !== stock.bloodGroup ||
+          unit.component !== stock.component
+        ) {
+          throw new ApiError(
+            409,
+            "DONATION_MISMATCH",
+            `Donation ${donationId} was not collected for this stock`,
+            {
+              donationId,
+              bloodBankId: unit.bloodBankId,
+              bloodGroup: unit.bloodGroup,
+              component: unit.component,
+            }
+          );
+        }
+
+        serials.push(unit.serialNumber);
+      }
+
+      return serials;
+    }
+
+    case "ISSUED": {
+      const { units } = await decrementInventory(tx, {
+        ...stock,
+        quantity: input.quantity,
+      });
+
+      return units.map((unit) => unit.serialNumber);
+    }
+
+    case "EXPIRED":
+    case "DAMAGED": {
+      const units = await findShelfUnits(tx, stock, input.unitSerials);
+
+      if (input.reason === "EXPIRED") {
+        const notExpired = units.filter((unit) => unit.expiresAt > now);
+
+        if (notExpired.length > 0) {
+          throw new ApiError(
+            409,
+            "UNIT_NOT_EXPIRED",
+            `Units have not expired yet: ${notExpired
+              .map((unit) => unit.serialNumber)
+              .join(", ")}. Use DAMAGED to discard usable units.`,
+            {
+              units: notExpired.map(({ serialNumber, expiresAt }) => ({
+                serialNumber,
+                expiresAt,
+              })),
+            }
+          );
+        }
+      }
+
+      const removed = await removeUnits(
+        tx,
+        stock,
+        units.map((unit) => unit.id),
+        input.reason === "EXPIRED"
+          ? BloodUnitStatus.EXPIRED
+          : BloodUnitStatus.DISCARDED
+      );
+
+      if (removed !== units.length) throw unitsChanged();
+
+      return input.unitSerials;
+    }
+
+    case "TRANSFER": {
+      const units = await findShelfUnits(tx, stock, input.unitSerials);
+
+      const moved = await transferUnits(
+        tx,
+        stock,
+        input.toBloodBankId,
+        units.map((unit) => unit.id)
+      );
+
+      if (moved !== units.length) throw unitsChanged();
+
+      return input.unitSerials;
+    }
+
+    case "COUNT_CORRECTION": {
+      const missingSerials = input.missingSerials ?? [];
+
+      // Units the count did not find are gone from the shelf
+      if (missingSerials.length > 0) {
+        const units = await findShelfUnits(tx, stock, missingSerials);
+
+        const removed = await removeUnits(
+          tx,
+          stock,
+          units.map((unit) => unit.id),
+          BloodUnitStatus.DISCARDED
+        );
+
+        if (removed !== units.length) throw unitsChanged();
+      }
+
+      const onRecord = await tx.bloodUnit.count({
+        where: { ...stock, status: BloodUnitStatus.AVAILABLE },
+      });
+
+      if (input.countedQuantity !== onRecord) {
+        throw new ApiError(
+          409,
+          "COUNT_MISMATCH",
+          `Counted ${input.countedQuantity} units but ${onRecord} are on record. List units that are gone in missingSerials, or receive extra units first.`,
+          { counted: input.countedQuantity, onRecord }
+        );
+      }
+
+      // The count matches the units; bring the total back in line with both
+      await tx.bloodInventory.update({
+        where: { id: inventoryId },
+        data: {
+          quantity: onRecord,
+          expiryDate: await oldestAvailableExpiry(tx, stock),
+          lastUpdated: now,
+        },
+      });
+
+      await evaluateInventoryAlert(tx, inventoryId, now);
+
+      return missingSerials;
+    }
+  }
+}
+
+/**
+ * Checks a transfer's destination before any rows are locked
+ *
+ * @throws ApiError 400 VALIDATION_ERROR - Destination is this blood bank
+ * @throws ApiError 404 NOT_FOUND - No such blood bank
+ * @throws ApiError 409 BLOOD_BANK_INACTIVE - Destination is not active
+ */
+async function transferDestination(
+  db: Db,
+  stock: StockKey,
+  toBloodBankId: string
+): Promise<StockKey> {
+  if (toBloodBankId === stock.bloodBankId) {
+    throw new ApiError(
+      400,
+      "VALIDATION_ERROR",
+      "Cannot transfer units to the blood bank that holds them",
+      { field: "toBloodBankId" }
+    );
+  }
+
+  const bloodBank = await db.bloodBank.findUnique({
+    where: { id: toBloodBankId },
+    select: { isActive: true },
+  });
+
+  if (!bloodBank) {
+    throw new ApiError(404, "NOT_FOUND", "Destination blood bank not found");
+  }
+
+  if (!bloodBank.isActive) {
+    throw new ApiError(
+      409,
+      "BLOOD_BANK_INACTIVE",
+      "Destination blood bank is not active",
+      { bloodBankId: toBloodBankId }
+    );
+  }
+
+  return { ...stock, bloodBankId: toBloodBankId };
+}
+
+/**
+ * Applies a stock adjustment to an inventory row and records it
+ *
+ * @throws ApiError 403 FORBIDDEN - Actor is not blood bank staff or admin
+ * @throws ApiError 404 NOT_FOUND - Actor, inventory row, donation or
+ *                      destination blood bank not found
+ * @throws ApiError 404 UNIT_NOT_FOUND - A serial is not in this stock
+ * @throws ApiError 409 - The units or count do not allow the adjustment;
+ *                      see applyAdjustment and the inventory.ts helpers
+ */
+export async function adjustInventory(
+  inventoryId: string,
+  { actorId, ...input }: InventoryAdjustmentInput & { actorId: string }
+) {
+  const actor = await requireActor(actorId);
+
+  if (!ADJUSTMENT_ROLES.includes(actor.role)) {
+    throw new ApiError(
+      403,
+      "FORBIDDEN",
+      "Only blood bank staff and admins can adjust inventory"
+    );
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const inventory = await tx.bloodInventory.findUnique({
+      where: { id: inventoryId },
+      select: {
+        id: true,
+        bloodBankId: true,
+        bloodGroup: true,
+        component: true,
+      },
+    });
+
+    if (!inventory) {
+      throw new ApiError(404, "NOT_FOUND", "Inventory record not found");
+    }
+
+    const { id, ...stock } = inventory;
+    const now = new Date();
+
+    const destination =
+      input.reason === "TRANSFER"
+        ? await transferDestination(tx, stock, input.toBloodBankId)
+        : null;
+
+    await lockInventories(tx, destination ? [stock, destination] : [stock]);
+
+    const previousQuantity = (await lockInventory(tx, stock))?.quantity ?? 0;
+    const destinationPrevious = destination
+      ? (await lockInventory(tx, destination))?.quantity ?? 0
+      : 0;
+
+    const unitSerials = await applyAdjustment(tx, id, stock, input, now);
+
+    const updated = await tx.bloodInventory.findUniqueOrThrow({
+      where: { id },
+    });
+
+    const adjustment = await tx.inventoryAdjustment.create({
+      data: {
+        inventoryId: id,
+        reason: input.reason,
+        quantityChange: updated.quantity - previousQuantity,
+        previousQuantity,
+        newQuantity: updated.quantity,
+        unitSerials,
+        transferBloodBankId: destination?.bloodBankId,
+        notes: input.notes,
+        performedBy: actor.id,
+      },
+    });
+
+    if (destination) {
+      const received = await tx.bloodInventory.findUniqueOrThrow({
+        where: { bloodBankId_bloodGroup_component: destination },
+      });
+
+      await tx.inventoryAdjustment.create({
+        data: {
+          inventoryId: received.id,
+          reason: input.reason,
+          quantityChange: received.quantity - destinationPrevious,
+          previousQuantity: destinationPrevious,
+          newQuantity: received.quantity,
+          unitSerials,
+          transferBloodBankId: stock.bloodBankId,
+          notes: input.notes,
+          performedBy: actor.id,
+        },
+      });
+    }
+
+    return { inventory: updated, adjustment };
+  });
+}
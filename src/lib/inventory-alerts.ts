@@ -0,0 +1,229 @@
+/**
+ * Low-Stock and Over-Capacity Alerts
+ *
+ * Compares each BloodInventory row with its thresholds:
+ *
+ * - LOW:           below minimumQuantity
+ * - CRITICAL:      at or below INVENTORY_CRITICAL_PERCENT of minimumQuantity
+ * - OVER_CAPACITY: above maximumQuantity
+ *
+ * evaluateInventoryAlert runs inside every stock change (see
+ * src/lib/inventory.ts), and the sweep runs it for every row on a schedule
+ * to pick up threshold edits and changes made outside the app. A row has
+ * at most one open InventoryAlert: it is raised once, replaced when the
+ * level changes, and resolved once stock is back within the thresholds.
+ * The blood bank's manager is notified when an alert is raised or gets
+ * worse, not on every stock change. Rows at inactive blood banks never
+ * alert.
+ *
+ * Run the sweep from cron with `npm run inventory:alerts` or
+ * POST /api/internal/blood-inventory/alerts.
+ */
+
+import { InventoryAlertLevel, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getInventoryCriticalPercent } from "@/lib/env";
+import { NotificationType, formatBloodGroup } from "@/types";
+
+export type StockThresholds = {
+  quantity: number;
+  minimumQuantity: number;
+  maximumQuantity: number;
+};
+
+export type AlertChange = {
+  inventoryId: string;
+  from: InventoryAlertLevel | null; // Open alert before, null if none
+  to: InventoryAlertLevel | null; // Open alert after, null once resolved
+};
+
+export type AlertSweepOptions = {
+  now?: Date;
+  dryRun?: boolean; // Report what would change without writing
+};
+
+export type AlertSweepResult = {
+  checkedAt: Date;
+  dryRun: boolean;
+  checked: number;
+  raised: number;
+  resolved: number;
+  changes: AlertChange[];
+};
+
+const NOTIFICATION_TYPES: Record<InventoryAlertLevel, NotificationType> = {
+  LOW: "INVENTORY_LOW",
+  CRITICAL: "INVENTORY_CRITICAL",
+  OVER_CAPACITY: "INVENTORY_OVER_CAPACITY",
+};
+
+const DESCRIPTIONS: Record<InventoryAlertLevel, string> = {
+  LOW: "low",
+  CRITICAL: "critically low",
+  OVER_CAPACITY: "over capacity",
+};
+
+/**
+ * Alert level for a stock quantity, or null when it is within thresholds
+ */
+export function stockLevel(
+  { quantity, minimumQuantity, maximumQuantity }: StockThresholds,
+  criticalPercent: number = getInventoryCriticalPercent()
+): InventoryAlertLevel | null {
+  if (quantity > maximumQuantity) return InventoryAlertLevel.OVER_CAPACITY;
+  if (quantity >= minimumQuantity) return null;
+
+  return quantity <= (minimumQuantity * criticalPercent) / 100
+    ? InventoryAlertLevel.CRITICAL
+    : InventoryAlertLevel.LOW;
+}
+
+/**
+ * Brings a row's open alert in line with its stock
+ *
+ * Locks the inventory row so concurrent evaluations cannot raise the same
+ * alert twice; call it inside the transaction that changed the stock.
+ *
+ * @returns The change made, or null when the open alert already matched
+ */
+export async function evaluateInventoryAlert(
+  tx: Prisma.TransactionClient,
+  inventoryId: string,
+  now: Date = new Date()
+): Promise<AlertChange | null> {
+  await tx.$queryRaw`
+    SELECT "id" FROM "blood_inventory" WHERE "id" = ${inventoryId} FOR UPDATE
+  `;
+
+  const inventory = await tx.bloodInventory.findUnique({
+    where: { id: inventoryId },
+    select: {
+      quantity: true,
+      minimumQuantity: true,
+      maximumQuantity: true,
+      bloodGroup: true,
+      component: true,
+      bloodBank: { select: { name: true, isActive: true, managerId: true } },
+      alerts: {
+        where: { resolvedAt: null },
+        select: { id: true, level: true },
+      },
+    },
+  });
+
+  if (!inventory) return null;
+
+  const [open] = inventory.alerts;
+  const from = open?.level ?? null;
+  const to = inventory.bloodBank.isActive ? stockLevel(inventory) : null;
+
+  if (from === to) return null;
+
+  if (open) {
+    await tx.inventoryAlert.update({
+      where: { id: open.id },
+      data: { resolvedAt: now },
+    });
+  }
+
+  if (to) {
+    // Easing from CRITICAL to LOW is not worth another notification
+    const notifiedUserId =
+      inventory.bloodBank.managerId &&
+      !(from === InventoryAlertLevel.CRITICAL && to === InventoryAlertLevel.LOW)
+        ? inventory.bloodBank.managerId
+        : null;
+    const threshold =
+      to === InventoryAlertLevel.OVER_CAPACITY
+        ? inventory.maximumQuantity
+        : inventory.minimumQuantity;
+
+    await tx.inventoryAlert.create({
+      data: {
+        inventoryId,
+        level: to,
+        quantity: inventory.quantity,
+        threshold,
+        notifiedUserId,
+        raisedAt: now,
+      },
+    });
+
+    if (notifiedUserId) {
+      const stock = `${formatBloodGroup(inventory.bloodGroup)} ${
+        inventory.component
+      }`;
+
+      await tx.notification.create({
+        data: {
+          userId: notifiedUserId,
+          type: NOTIFICATION_TYPES[to],
+          title: `${stock} stock is ${DESCRIPTIONS[to]}`,
+          message: `${inventory.bloodBank.name} has ${
+            inventory.quantity
+          } units of ${stock} (${
+            to === InventoryAlertLevel.OVER_CAPACITY ? "maximum" : "minimum"
+          } ${threshold}).`,
+          link: `/blood-inventory/${inventoryId}`,
+        },
+      });
+    }
+  }
+
+  return { inventoryId, from, to };
+}
+
+/**
+ * Evaluates every inventory row, raising and resolving alerts as needed
+ *
+ * Each row whose alert is out of date is re-evaluated in its own
+ * transaction, so a change made since the rows were read is respected.
+ */
+export async function sweepInventoryAlerts({
+  now = new Date(),
+  dryRun = false,
+}: AlertSweepOptions = {}): Promise<AlertSweepResult> {
+  const criticalPercent = getInventoryCriticalPercent();
+
+  const rows = await prisma.bloodInventory.findMany({
+    select: {
+      id: true,
+      quantity: true,
+      minimumQuantity: true,
+      maximumQuantity: true,
+      bloodBank: { select: { isActive: true } },
+      alerts: { where: { resolvedAt: null }, select: { level: true } },
+    },
+    orderBy: { id: "asc" },
+  });
+
+  const result: AlertSweepResult = {
+    checkedAt: now,
+    dryRun,
+    checked: rows.length,
+    raised: 0,
+    resolved: 0,
+    changes: [],
+  };
+
+  for (const row of rows) {
+    const from = row.alerts[0]?.level ?? null;
+    const to = row.bloodBank.isActive ? stockLevel(row, criticalPercent) : null;
+
+    if (from === to) continue;
+
+    const change = dryRun
+      ? { inventoryId: row.id, from, to }
+      : await prisma.$transaction((tx) =>
+          evaluateInventoryAlert(tx, row.id, now)
+        );
+
+    if (!change) continue;
+
+    if (change.from) result.resolved++;
+    if (change.to) result.raised++;
+    result.changes.push(change);
+  }
+
+  return result;
+}
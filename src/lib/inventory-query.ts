@@ -0,0 +1,104 @@
+/**
+ * Blood Inventory List Query Parsing
+ *
+ * Turns GET /api/blood-inventory query parameters into a validated
+ * BloodAvailabilityFilter and pagination settings, then into a Prisma
+ * where clause. Invalid values throw a 400 instead of reaching Prisma.
+ *
+ * bloodGroup and component accept comma-separated lists:
+ * ?bloodGroup=O_NEGATIVE,O_POSITIVE&component=RED_CELLS
+ */
+
+import { BloodComponent, BloodGroup, Prisma } from "@prisma/client";
+import { ApiError } from "@/lib/errors";
+import {
+  MAX_PAGE_SIZE,
+  parseList,
+  parsePositiveInt,
+} from "@/lib/blood-request-query";
+import {
+  BloodAvailabilityFilter,
+  isValidBloodComponent,
+  isValidBloodGroup,
+} from "@/types";
+
+export type InventoryListQuery = {
+  filter: BloodAvailabilityFilter;
+  page: number;
+  limit: number;
+};
+
+/**
+ * Validates list query parameters
+ *
+ * @throws ApiError 400 VALIDATION_ERROR - details name the offending field
+ */
+export function parseInventoryQuery(
+  params: URLSearchParams
+): InventoryListQuery {
+  const rawMinQuantity = params.get("minQuantity");
+  const minQuantity = rawMinQuantity ? Number(rawMinQuantity) : undefined;
+
+  if (
+    minQuantity !== undefined &&
+    (!Number.isInteger(minQuantity) || minQuantity < 0)
+  ) {
+    throw new ApiError(400, "VALIDATION_ERROR", "Invalid minQuantity value", {
+      field: "minQuantity",
+      value: rawMinQuantity,
+    });
+  }
+
+  return {
+    filter: {
+      bloodGroup: parseList<BloodGroup>(
+        params,
+        "bloodGroup",
+        isValidBloodGroup,
+        Object.values(BloodGroup)
+      ),
+      component: parseList<BloodComponent>(
+        params,
+        "component",
+        isValidBloodComponent,
+        Object.values(BloodComponent)
+      ),
+      bloodBankId: params.get("bloodBankId") || undefined,
+      city: params.get("city") || undefined,
+      state: params.get("state") || undefined,
+      minQuantity,
+    },
+    page: parsePositiveInt(params, "page", 1),
+    limit: parsePositiveInt(params, "limit", 20, MAX_PAGE_SIZE),
+  };
+}
+
+/**
+ * Builds the Prisma where clause for a BloodAvailabilityFilter
+ *
+ * Stock at inactive blood banks is left out.
+ */
+export function buildInventoryWhere(
+  filter: BloodAvailabilityFilter
+): Prisma.BloodInventoryWhereInput {
+  const where: Prisma.BloodInventoryWhereInput = {
+    bloodBank: {
+      isActive: true,
+      ...(filter.city && {
+        city: { equals: filter.city, mode: "insensitive" },
+      }),
+      ...(filter.state && {
+        state: { equals: filter.state, mode: "insensitive" },
+      }),
+    },
+  };
+
+  if (filter.bloodGroup) where.bloodGroup = { in: filter.bloodGroup };
+  if (filter.component) where.component = { in: filter.component };
+  if (filter.bloodBankId) where.bloodBankId = filter.bloodBankId;
+  if (filter.minQuantity !== undefined) {
+    where.quantity = { gte: filter.minQuantity };
+  }
+
+  return where;
+}
@@ -0,0 +1,105 @@
+/**
+ * Blood Inventory Schemas
+ *
+ * zod schemas for blood inventory bodies, built from InventoryAdjustmentInput
+ * so the API and the types stay in step. Validate with parseBody() from
+ * @/lib/validation.
+ */
+
+import { z } from "zod";
+import { InventoryAdjustmentInput } from "@/types";
+import { idInput } from "@/lib/validation";
+
+export const MAX_ADJUSTMENT_UNITS = 100;
+
+const notes = z.string().trim().min(1, "Notes cannot be empty").optional();
+
+const unitSerials = z
+  .array(z.string().trim().min(1, "Serial number cannot be empty"))
+  .min(1, "At least one unit serial number is required")
+  .max(MAX_ADJUSTMENT_UNITS, `At most ${MAX_ADJUSTMENT_UNITS} units at once`)
+  .refine(
+    (serials) => new Set(serials).size === serials.length,
+    "Serial numbers must not repeat"
+  );
+
+/**
+ * POST /api/blood-inventory/[id]/adjustments
+ *
+ * The fields besides actorId and notes depend on the reason.
+ */
+export const adjustmentSchema = z.discriminatedUnion("reason", [
+  z
+    .object({
+      actorId: idInput,
+      reason: z.literal("DONATION_RECEIVED"),
+      donationIds: z
+        .array(idInput)
+        .min(1, "At least one donation is required")
+        .max(
+          MAX_ADJUSTMENT_UNITS,
+          `At most ${MAX_ADJUSTMENT_UNITS} donations at once`
+        )
+        .refine(
+          (ids) => new Set(ids).size === ids.length,
+          "Donations must not repeat"
+        ),
+      notes,
+    })
+    .strict(),
+  z
+    .object({
+      actorId: idInput,
+      reason: z.literal("ISSUED"),
+      quantity: z
+        .number()
+        .int("Quantity must be a whole number of units")
+        .positive("Quantity must be greater than 0")
+        .max(MAX_ADJUSTMENT_UNITS, `At most ${MAX_ADJUSTMENT_UNITS} units`),
+      notes,
+    })
+    .strict(),
+  z
+    .object({
+      actorId: idInput,
+      reason: z.literal("EXPIRED"),
+      unitSerials,
+      notes,
+    })
+    .strict(),
+  z
+    .object({
+      actorId: idInput,
+      reason: z.literal("DAMAGED"),
+      unitSerials,
+      notes,
+    })
+    .strict(),
+  z
+    .object({
+      actorId: idInput,
+      reason: z.literal("TRANSFER"),
+      unitSerials,
+      toBloodBankId: idInput,
+      notes,
+    })
+    .strict(),
+  z
+    .object({
+      actorId: idInput,
+      reason: z.literal("COUNT_CORRECTION"),
+      countedQuantity: z
+        .number()
+        .int("Counted quantity must be a whole number of units")
+        .min(0, "Counted quantity cannot be negative"),
+      missingSerials: unitSerials.optional(),
+      notes,
+    })
+    .strict(),
+]) satisfies z.ZodType<
+  InventoryAdjustmentInput & { actorId: string },
+  z.ZodTypeDef,
+  unknown
+>;
+
+export type AdjustmentBody = z.infer<typeof adjustmentSchema>;
@@ -0,0 +1,321 @@
+/**
+ * Blood Inventory Stock Operations
+ *
+ * Helpers that change BloodInventory.quantity. They must be called inside a
+ * Prisma interactive transaction so the stock change commits or rolls back
+ * together with the operation that caused it (e.g. fulfilling a request).
+ *
+ * BloodInventory is the per-bank, per-group, per-component total of
+ * AVAILABLE BloodUnits (see src/lib/blood-units.ts); these helpers keep
+ * both in step, and expiryDate always holds the soonest expiry among the
+ * available units. Every change re-evaluates the row's low-stock and
+ * over-capacity alert (see src/lib/inventory-alerts.ts) in the same
+ * transaction.
+ *
+ * Usage:
+ * await prisma.$transaction(async (tx) => {
+ *   await decrementInventory(tx, {
+ *     bloodBankId,
+ *     bloodGroup,
+ *     component: BloodComponent.RED_CELLS,
+ *     quantity: 2,
+ *   });
+ * });
+ */
+
+import {
+  BloodComponent,
+  BloodGroup,
+  BloodUnitStatus,
+  Prisma,
+} from "@prisma/client";
+import { ApiError } from "@/lib/errors";
+import { evaluateInventoryAlert } from "@/lib/inventory-alerts";
+
+export type StockKey = {
+  bloodBankId: string;
+  bloodGroup: BloodGroup;
+  component: BloodComponent;
+};
+
+export type StockChange = StockKey & {
+  quantity: number; // Units to remove
+  expiresAfter?: Date; // Only issue units still usable then (default: now)
+};
+
+export type IssuedUnit = {
+  id: string;
+  serialNumber: string;
+  expiresAt: Date;
+};
+
+/**
+ * Soonest expiry among a bank's available units of a group and component
+ */
+export async function oldestAvailableExpiry(
+  tx: Prisma.TransactionClient,
+  { bloodBankId, bloodGroup, component }: StockKey
+) {
+  const { _min } = await tx.bloodUnit.aggregate({
+    where: {
+      bloodBankId,
+      bloodGroup,
+      component,
+      status: BloodUnitStatus.AVAILABLE,
+    },
+    _min: { expiresAt: true },
+  });
+
+  return _min.expiresAt;
+}
+
+/**
+ * Reads an inventory row with SELECT ... FOR UPDATE
+ *
+ * Concurrent stock changes on the same row wait for each other instead of
+ * both passing an availability check and driving the quantity negative.
+ */
+export async function lockInventory(
+  tx: Prisma.TransactionClient,
+  { bloodBankId, bloodGroup, component }: StockKey
+) {
+  const [inventory] = await tx.$queryRaw<{ id: string; quantity: number }[]>`
+    SELECT "id", "quantity"
+    FROM "blood_inventory"
+    WHERE "bloodBankId" = ${bloodBankId}
+      AND "bloodGroup" = ${bloodGroup}::"BloodGroup"
+      AND "component" = ${component}::"BloodComponent"
+    FOR UPDATE
+  `;
+
+  return inventory;
+}
+
+/**
+ * Locks several inventory rows in a fixed order
+ *
+ * Transactions that lock the same rows (e.g. transfers in opposite
+ * directions) then wait for each other instead of deadlocking.
+ */
+export async function lockInventories(
+  tx: Prisma.TransactionClient,
+  keys: StockKey[]
+) {
+  const order = (key: StockKey) =>
+    `${key.bloodBankId}:${key.bloodGroup}:${key.component}`;
+  const sorted = [...keys].sort((a, b) => order(a).localeCompare(order(b)));
+
+  for (const key of sorted) {
+    await lockInventory(tx, key);
+  }
+}
+
+/**
+ * Adds units to a bank's stock, creating the inventory row if needed
+ *
+ * The insert-or-increment is a single statement, so it is safe against
+ * concurrent additions and waits on rows locked by decrementInventory.
+ */
+export async function incrementInventory(
+  tx: Prisma.TransactionClient,
+  {
+    bloodBankId,
+    bloodGroup,
+    component,
+    quantity,
+    expiryDate,
+  }: StockKey & { quantity: number; expiryDate: Date }
+) {
+  // LEAST ignores NULL, so a row without an expiry takes the new one
+  const [inventory] = await tx.$queryRaw<{ id: string }[]>`
+    INSERT INTO "blood_inventory"
+      ("id", "bloodBankId", "bloodGroup", "component", "quantity", "expiryDate", "lastUpdated", "updatedAt")
+    VALUES
+      (gen_random_uuid()::text, ${bloodBankId}, ${bloodGroup}::"BloodGroup",
+       ${component}::"BloodComponent", ${quantity}, ${expiryDate}, NOW(), NOW())
+    ON CONFLICT ("bloodBankId", "bloodGroup", "component") DO UPDATE SET
+      "quantity" = "blood_inventory"."quantity" + EXCLUDED."quantity",
+      "expiryDate" = LEAST("blood_inventory"."expiryDate", EXCLUDED."expiryDate"),
+      "lastUpdated" = NOW(),
+      "updatedAt" = NOW()
+    RETURNING "id"
+  `;
+
+  await evaluateInventoryAlert(tx, inventory.id);
+}
+
+/**
+ * Takes specific AVAILABLE units out of stock with a new status
+ *
+ * Used when units leave the shelf for reasons other than a request (e.g.
+ * separation into components). Units that are no longer AVAILABLE are
+ * left alone and not counted.
+ *
+ * @returns Number of units removed
+ */
+export async function removeUnits(
+  tx: Prisma.TransactionClient,
+  stock: StockKey,
+  unitIds: string[],
+  status: BloodUnitStatus
+) {
+  await lockInventory(tx, stock);
+
+  const { count } = await tx.bloodUnit.updateMany({
+    where: {
+      id: { in: unitIds },
+      ...stock,
+      status: BloodUnitStatus.AVAILABLE,
+    },
+    data: { status, statusChangedAt: new Date() },
+  });
+
+  if (count > 0) await removeFromTotal(tx, stock, count);
+
+  return count;
+}
+
+// Takes units that just left the shelf off a locked row's total
+async function removeFromTotal(
+  tx: Prisma.TransactionClient,
+  stock: StockKey,
+  count: number
+) {
+  const inventory = await lockInventory(tx, stock);
+  if (!inventory) return;
+
+  await tx.bloodInventory.update({
+    where: { id: inventory.id },
+    data: {
+      // Never below zero, even if the total had drifted from the units
+      quantity: Math.max(inventory.quantity - count, 0),
+      expiryDate: await oldestAvailableExpiry(tx, stock),
+      lastUpdated: new Date(),
+    },
+  });
+
+  await evaluateInventoryAlert(tx, inventory.id);
+}
+
+/**
+ * Moves specific AVAILABLE units to another blood bank's stock
+ *
+ * Both inventory rows are locked first (see lockInventories). Units that
+ * are no longer AVAILABLE are left alone and not counted.
+ *
+ * @returns Number of units moved
+ */
+export async function transferUnits(
+  tx: Prisma.TransactionClient,
+  from: StockKey,
+  toBloodBankId: string,
+  unitIds: string[]
+) {
+  const to = { ...from, bloodBankId: toBloodBankId };
+  await lockInventories(tx, [from, to]);
+
+  const units = await tx.bloodUnit.findMany({
+    where: {
+      id: { in: unitIds },
+      ...from,
+      status: BloodUnitStatus.AVAILABLE,
+    },
+    select: { id: true, expiresAt: true },
+    orderBy: { expiresAt: "asc" },
+  });
+
+  if (units.length === 0) return 0;
+
+  await tx.bloodUnit.updateMany({
+    where: { id: { in: units.map((unit) => unit.id) } },
+    data: { bloodBankId: toBloodBankId, statusChangedAt: new Date() },
+  });
+
+  await removeFromTotal(tx, from, units.length);
+  await incrementInventory(tx, {
+    ...to,
+    quantity: units.length,
+    expiryDate: units[0].expiresAt,
+  });
+
+  return units.length;
+}
+
+/**
+ * Locks the inventory row for a blood bank / group / component and issues
+ * units
+ *
+ * Units are picked first-expiry-first-out: the soonest-expiring units that
+ * are still usable after `expiresAfter` go first, so older stock is used
+ * before it expires on the shelf. They are marked ISSUED and returned.
+ *
+ * @throws ApiError 409 INSUFFICIENT_STOCK - Not enough usable units
+ */
+export async function decrementInventory(
+  tx: Prisma.TransactionClient,
+  { quantity, expiresAfter, ...stock }: StockChange
+) {
+  const { bloodBankId, bloodGroup, component } = stock;
+  const now = new Date();
+
+  const inventory = await lockInventory(tx, stock);
+
+  const units = inventory
+    ? await tx.$queryRaw<IssuedUnit[]>`
+        SELECT "id", "serialNumber", "expiresAt"
+        FROM "blood_units"
+        WHERE "bloodBankId" = ${bloodBankId}
+          AND "bloodGroup" = ${bloodGroup}::"BloodGroup"
+          AND "component" = ${component}::"BloodComponent"
+          AND "status" = 'AVAILABLE'
+          AND "expiresAt" > ${expiresAfter ?? now}
+        ORDER BY "expiresAt", "id"
+        LIMIT ${quantity}
+        FOR UPDATE
+      `
+    : [];
+
+  // Fewer units than asked for means these are all the usable ones
+  const available = Math.min(units.length, inventory?.quantity ?? 0);
+
+  if (!inventory || available < quantity) {
+    throw new ApiError(
+      409,
+      "INSUFFICIENT_STOCK",
+      `Insufficient inventory: Available ${available} units, Requested ${quantity} units`,
+      {
+        bloodBankId,
+        bloodGroup,
+        component,
+        available,
+        requested: quantity,
+        ...(expiresAfter && { expiresAfter }),
+      }
+    );
+  }
+
+  await tx.bloodUnit.updateMany({
+    where: { id: { in: units.map((unit) => unit.id) } },
+    data: { status: BloodUnitStatus.ISSUED, statusChangedAt: now },
+  });
+
+  const updated = await tx.bloodInventory.update({
+    where: { id: inventory.id },
+    data: {
+      quantity: { decrement: quantity },
+      expiryDate: await oldestAvailableExpiry(tx, stock),
+      lastUpdated: now,
+    },
+  });
+
+  await evaluateInventoryAlert(tx, inventory.id, now);
+
+  return {
+    bloodBankId,
+    bloodGroup,
+    component,
+    previousQuantity: inventory.quantity,
+    currentQuantity: updated.quantity,
+    units,
+  };
+}
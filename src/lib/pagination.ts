@@ -0,0 +1,99 @@
+/**
+ * Cursor Pagination Helpers
+ *
+ * Cursors are opaque base64url strings holding the sort value and id of the
+ * last row a client received. Paging with a keyset WHERE clause instead of
+ * skip/take keeps pages stable while new rows arrive and avoids counting
+ * the whole table. The id tie-break makes ordering deterministic when
+ * several rows share the same sort value.
+ *
+ * Usage:
+ * const cursor = decodeCursor(searchParams.get("cursor"), "createdAt");
+ * prisma.bloodRequest.findMany({
+ *   where: { AND: [where, cursorWhere("createdAt", "desc", cursor)] },
+ *   orderBy: keysetOrderBy("createdAt", "desc"),
+ *   take: limit + 1,
+ * });
+ */
+
+import { ApiError } from "@/lib/errors";
+
+export type SortOrder = "asc" | "desc";
+
+export type Cursor = {
+  value: Date | number;
+  id: string;
+};
+
+// Sort field first, then id so rows with equal values keep a fixed order
+export function keysetOrderBy(field: string, order: SortOrder) {
+  return [{ [field]: order }, { id: order }];
+}
+
+export function encodeCursor(
+  field: string,
+  row: { id: string } & Record<string, unknown>
+): string {
+  const value = row[field];
+
+  return Buffer.from(
+    JSON.stringify({
+      field,
+      value: value instanceof Date ? value.toISOString() : value,
+      date: value instanceof Date,
+      id: row.id,
+    })
+  ).toString("base64url");
+}
+
+/**
+ * @throws ApiError 400 - Cursor is malformed or was issued for another sort
+ */
+export function decodeCursor(
+  value: string | null,
+  field: string
+): Cursor | null {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString());
+    const cursorValue = parsed.date ? new Date(parsed.value) : parsed.value;
+
+    if (
+      parsed.field !== field ||
+      typeof parsed.id !== "string" ||
+      (cursorValue instanceof Date
+        ? isNaN(cursorValue.getTime())
+        : typeof cursorValue !== "number")
+    ) {
+      throw new Error("Invalid cursor payload");
+    }
+
+    return { value: cursorValue, id: parsed.id };
+  } catch {
+    throw new ApiError(
+      400,
+      "VALIDATION_ERROR",
+      "Invalid cursor for the requested sort",
+      { field: "cursor" }
+    );
+  }
+}
+
+// Rows strictly after the cursor in keysetOrderBy(field, order) order
+export function cursorWhere(
+  field: string,
+  order: SortOrder,
+  cursor: Cursor | null
+) {
+  if (!cursor) return {};
+
+  const after = order === "desc" ? "lt" : "gt";
+
+  return {
+    OR: [
+      { [field]: { [after]: cursor.value } },
+      { [field]: cursor.value, id: { [after]: cursor.id } },
+    ],
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Bulk Status Actions on Blood Requests
+ *
+ * Staff closing out a shift approve, reject or cancel many requests at
+ * once. Each id goes through transitionBloodRequest on its own, so the
+ * state machine, guards and AuditLog entries are exactly those of the
+ * single-request routes. One failing id does not stop the batch; every id
+ * gets its own outcome:
+ *
+ * - success:   the action was applied
+ * - conflict:  the request's status does not allow the action (409)
+ * - not_found: no such request, or it is soft-deleted (404)
+ * - error:     anything else; details are in `error`
+ *
+ * Ids are processed in the order given.
+ */
+
+import { RequestStatus } from "@prisma/client";
+import { ApiError } from "@/lib/errors";
+import { requireActor } from "@/lib/actors";
+import { etagFor } from "@/lib/etag";
+import { transitionBloodRequest } from "@/lib/request-lifecycle";
+import { BULK_ACTIONS } from "@/lib/blood-request-schemas";
+
+export type BulkAction = (typeof BULK_ACTIONS)[number];
+
+export type BulkOutcome = "success" | "conflict" | "not_found" | "error";
+
+export type BulkItemResult = {
+  id: string;
+  outcome: BulkOutcome;
+  data?: { status: RequestStatus; etag: string };
+  error?: {
+    code: string;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+};
+
+export type BulkResult = {
+  action: BulkAction;
+  summary: Record<BulkOutcome, number> & { total: number };
+  results: BulkItemResult[];
+};
+
+function outcomeFor(error: ApiError): BulkOutcome {
+  if (error.status === 404) return "not_found";
+  if (error.status === 409) return "conflict";
+  return "error";
+}
+
+/**
+ * Applies one action to every id and reports each outcome
+ *
+ * @throws ApiError 404 - Actor not found (nothing is processed)
+ */
+export async function bulkTransition(
+  ids: string[],
+  action: BulkAction,
+  { actorId, reason }: { actorId: string; reason?: string }
+): Promise<BulkResult> {
+  // Fail the whole batch up front rather than once per id
+  await requireActor(actorId);
+
+  const results: BulkItemResult[] = [];
+
+  for (const id of ids) {
+    try {
+      const bloodRequest = await transitionBloodRequest(id, action, {
+        actorId,
+        reason,
+      });
+
+      results.push({
+        id,
+        outcome: "success",
+        data: { status: bloodRequest.status, etag: etagFor(bloodRequest) },
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        results.push({
+          id,
+          outcome: outcomeFor(error),
+          error: {
+            code: error.code,
+            message: error.message,
+            ...(error.details && { details: error.details }),
+          },
+        });
+        continue;
+      }
+
+      console.error(`Error applying bulk ${action} to ${id}:`, error);
+
+      results.push({
+        id,
+        outcome: "error",
+        error: {
+          code: "INTERNAL_ERROR",
+          message: `Failed to ${action} this blood request`,
+        },
+      });
+    }
+  }
+
+  const count = (outcome: BulkOutcome) =>
+    results.filter((item) => item.outcome === outcome).length;
+
+  return {
+    action,
+    summary: {
+      total: results.length,
+      success: count("success"),
+      conflict: count("conflict"),
+      not_found: count("not_found"),
+      error: count("error"),
+    },
+    results,
+  };
+}
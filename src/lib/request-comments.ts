@@ -0,0 +1,222 @@
+/**
+ * Blood Request Comments and Activity Timeline
+ *
+ * Hospitals and blood banks coordinate on a request through its comment
+ * thread instead of the static medicalNotes field. Blood bank staff and
+ * admins can mark a comment internal; internal comments are hidden from
+ * the requester and from callers that don't identify themselves.
+ *
+ * The timeline merges everything that happened to a request in
+ * chronological order: its creation, comments, status transitions and
+ * other AuditLog entries (deletion, escalation, overdue flags...).
+ *
+ * There is no session yet, so the viewer is passed as `actorId`
+ * (see src/lib/actors.ts).
+ */
+
+import { UserRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/errors";
+import { requireActor } from "@/lib/actors";
+
+// Roles that may read and write internal comments
+export const INTERNAL_COMMENT_ROLES: UserRole[] = [
+  UserRole.BLOOD_BANK,
+  UserRole.ADMIN,
+];
+
+const personSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  role: true,
+} as const;
+
+type Viewer = { id: string; role: UserRole } | null;
+
+type Person = {
+  id: string;
+  firstName: string;
+  lastName: string;
+  role: UserRole;
+};
+
+export type TimelineEntry = {
+  id: string;
+  type: "CREATED" | "COMMENT" | "STATUS_CHANGE" | "AUDIT";
+  at: Date;
+  actor: Person | null; // null for system actions such as the expiry sweep
+  details: Record<string, unknown>;
+};
+
+function canSeeInternal(viewer: Viewer, requesterId: string) {
+  return (
+    viewer !== null &&
+    viewer.id !== requesterId &&
+    INTERNAL_COMMENT_ROLES.includes(viewer.role)
+  );
+}
+
+async function findRequest(id: string) {
+  const bloodRequest = await prisma.bloodRequest.findFirst({
+    where: { id, deletedAt: null },
+    select: {
+      id: true,
+      requesterId: true,
+      createdAt: true,
+      urgency: true,
+      bloodGroup: true,
+      quantityNeeded: true,
+    },
+  });
+
+  if (!bloodRequest) {
+    throw new ApiError(404, "NOT_FOUND", "Blood request not found");
+  }
+
+  return bloodRequest;
+}
+
+function visibleComments(
+  bloodRequest: { id: string; requesterId: string },
+  viewer: Viewer
+) {
+  return prisma.requestComment.findMany({
+    where: {
+      bloodRequestId: bloodRequest.id,
+      ...(!canSeeInternal(viewer, bloodRequest.requesterId) && {
+        internal: false,
+      }),
+    },
+    include: { author: { select: personSelect } },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+}
+
+/**
+ * Comments on a request, oldest first, filtered for the viewer
+ *
+ * @throws ApiError 404 - Request or actor not found
+ */
+export async function listComments(id: string, actorId: string | null) {
+  const viewer = actorId ? await requireActor(actorId) : null;
+  const bloodRequest = await findRequest(id);
+
+  return visibleComments(bloodRequest, viewer);
+}
+
+/**
+ * @throws ApiError 403 - Internal comment from someone who can't see them
+ * @throws ApiError 404 - Request or actor not found
+ */
+export async function addComment(
+  id: string,
+  {
+    actorId,
+    body,
+    internal,
+  }: { actorId: string; body: string; internal: boolean }
+) {
+  const actor = await requireActor(actorId);
+  const bloodRequest = await findRequest(id);
+
+  if (internal && !canSeeInternal(actor, bloodRequest.requesterId)) {
+    throw new ApiError(
+      403,
+      "FORBIDDEN",
+      "Only blood bank staff and admins can post internal comments"
+    );
+  }
+
+  return prisma.requestComment.create({
+    data: {
+      bloodRequestId: bloodRequest.id,
+      authorId: actor.id,
+      body,
+      internal,
+    },
+    include: { author: { select: personSelect } },
+  });
+}
+
+/**
+ * Creation, comments and AuditLog entries for a request, oldest first
+ *
+ * @throws ApiError 404 - Request or actor not found
+ */
+export async function getTimeline(
+  id: string,
+  actorId: string | null
+): Promise<TimelineEntry[]> {
+  const viewer = actorId ? await requireActor(actorId) : null;
+  const bloodRequest = await findRequest(id);
+
+  const [comments, auditLogs, requester] = await Promise.all([
+    visibleComments(bloodRequest, viewer),
+    prisma.auditLog.findMany({
+      where: { entityType: "BloodRequest", entityId: bloodRequest.id },
+      orderBy: { timestamp: "asc" },
+    }),
+    prisma.user.findUnique({
+      where: { id: bloodRequest.requesterId },
+      select: personSelect,
+    }),
+  ]);
+
+  // One lookup for everyone who appears in the audit trail
+  const performerIds = Array.from(
+    new Set(
+      auditLogs
+        .map((entry) => entry.performedBy)
+        .filter((value): value is string => value !== null)
+    )
+  );
+  const performers = new Map(
+    (
+      await prisma.user.findMany({
+        where: { id: { in: performerIds } },
+        select: personSelect,
+      })
+    ).map((person) => [person.id, person])
+  );
+
+  const entries: TimelineEntry[] = [
+    {
+      id: bloodRequest.id,
+      type: "CREATED",
+      at: bloodRequest.createdAt,
+      actor: requester,
+      details: {
+        bloodGroup: bloodRequest.bloodGroup,
+        quantityNeeded: bloodRequest.quantityNeeded,
+        urgency: bloodRequest.urgency,
+      },
+    },
+    ...comments.map(
+      (comment): TimelineEntry => ({
+        id: comment.id,
+        type: "COMMENT",
+        at: comment.createdAt,
+        actor: comment.author,
+        details: { body: comment.body, internal: comment.internal },
+      })
+    ),
+    ...auditLogs.map(
+      (entry): TimelineEntry => ({
+        id: entry.id,
+        type: entry.action === "STATUS_CHANGE" ? "STATUS_CHANGE" : "AUDIT",
+        at: entry.timestamp,
+        actor: entry.performedBy
+          ? performers.get(entry.performedBy) ?? null
+          : null,
+        details:
+          entry.action === "STATUS_CHANGE"
+            ? { ...(entry.changes as Record<string, unknown>) }
+            : { action: entry.action, changes: entry.changes },
+      })
+    ),
+  ];
+
+  // Array.prototype.sort is stable, so creation stays first on a tie
+  return entries.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
@@ -0,0 +1,143 @@
+/**
+ * Blood Request Soft Delete
+ *
+ * Blood requests are clinical records, so DELETE never removes the row.
+ * It stamps deletedAt/deletedBy instead, which hides the request from
+ * lists, detail lookups and lifecycle actions. An admin can still view
+ * deleted requests and restore them. Deletion and restoration both write
+ * an AuditLog entry.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/errors";
+import { requireActor, requireAdmin } from "@/lib/actors";
+import { ifMatches, preconditionFailed } from "@/lib/etag";
+import { bloodRequestInclude } from "@/lib/request-lifecycle";
+
+/**
+ * Soft-deletes a blood request
+ *
+ * @throws ApiError 404 - Request (or already deleted) or actor not found
+ * @throws ApiError 412 - If-Match does not match the current version
+ */
+export async function softDeleteBloodRequest(
+  id: string,
+  {
+    actorId,
+    reason,
+    ifMatch = null,
+  }: { actorId: string; reason?: string; ifMatch?: string | null }
+) {
+  await requireActor(actorId);
+
+  return prisma.$transaction(async (tx) => {
+    const current = await tx.bloodRequest.findFirst({
+      where: { id, deletedAt: null },
+      include: bloodRequestInclude,
+    });
+
+    if (!current) {
+      throw new ApiError(404, "NOT_FOUND", "Blood request not found");
+    }
+
+    if (!ifMatches(ifMatch, current)) {
+      throw preconditionFailed(current);
+    }
+
+    const deletedAt = new Date();
+
+    // Guard on deletedAt so two concurrent deletes write one audit entry,
+    // and on updatedAt when If-Match was checked
+    const { count } = await tx.bloodRequest.updateMany({
+      where: {
+        id,
+        deletedAt: null,
+        ...(ifMatch !== null && { updatedAt: current.updatedAt }),
+      },
+      data: { deletedAt, deletedBy: actorId },
+    });
+
+    if (count === 0) {
+      const latest = await tx.bloodRequest.findFirst({
+        where: { id, deletedAt: null },
+        include: bloodRequestInclude,
+      });
+
+      if (latest) throw preconditionFailed(latest);
+
+      throw new ApiError(404, "NOT_FOUND", "Blood request not found");
+    }
+
+    await tx.auditLog.create({
+      data: {
+        entityType: "BloodRequest",
+        entityId: id,
+        action: "DELETE",
+        changes: {
+          status: current.status,
+          deletedAt,
+          ...(reason && { reason: reason.trim() }),
+        },
+        performedBy: actorId,
+      },
+    });
+
+    return { id, deletedAt, deletedBy: actorId };
+  });
+}
+
+/**
+ * Restores a soft-deleted blood request (admin only)
+ *
+ * @throws ApiError 403 - Actor is not an admin
+ * @throws ApiError 404 - Request or actor not found
+ * @throws ApiError 409 - Request is not deleted
+ */
+export async function restoreBloodRequest(
+  id: string,
+  { actorId }: { actorId: string }
+) {
+  await requireAdmin(actorId);
+
+  return prisma.$transaction(async (tx) => {
+    const current = await tx.bloodRequest.findUnique({
+      where: { id },
+      select: { id: true, deletedAt: true, deletedBy: true },
+    });
+
+    if (!current) {
+      throw new ApiError(404, "NOT_FOUND", "Blood request not found");
+    }
+
+    if (!current.deletedAt) {
+      throw new ApiError(409, "NOT_DELETED", "Blood request is not deleted");
+    }
+
+    const { count } = await tx.bloodRequest.updateMany({
+      where: { id, deletedAt: { not: null } },
+      data: { deletedAt: null, deletedBy: null },
+    });
+
+    if (count === 0) {
+      throw new ApiError(409, "NOT_DELETED", "Blood request is not deleted");
+    }
+
+    await tx.auditLog.create({
+      data: {
+        entityType: "BloodRequest",
+        entityId: id,
+        action: "RESTORE",
+        changes: {
+          deletedAt: current.deletedAt,
+          deletedBy: current.deletedBy,
+        },
+        performedBy: actorId,
+      },
+    });
+
+    return tx.bloodRequest.findUniqueOrThrow({
+      where: { id },
+      include: bloodRequestInclude,
+    });
+  });
+}
@@ -0,0 +1,196 @@
+/**
+ * Expiry Sweep for Overdue Blood Requests
+ *
+ * Open requests (PENDING or APPROVED) whose requiredBy has passed are no
+ * longer useful to anyone, but nothing closes them. The sweep:
+ *
+ * - Cancels overdue requests that have no units issued yet, with a system
+ *   reason, and stamps cancelledAt
+ * - Flags overdue APPROVED requests that are partly fulfilled instead of
+ *   cancelling them, since units have already left inventory; staff decide
+ *   whether to finish or cancel them
+ *
+ * Each change writes an AuditLog entry (performedBy is null for the system)
+ * and notifies the requester. Flagged requests are only flagged once.
+ *
+ * Run it from cron with `npm run requests:expire` or
+ * POST /api/internal/blood-requests/expire.
+ */
+
+import { RequestStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getRequestExpiryGraceHours } from "@/lib/env";
+import { canTransition } from "@/lib/request-lifecycle";
+import { NotificationType } from "@/types";
+
+export const EXPIRY_REASON =
+  "Automatically cancelled: the required-by date passed before the request was fulfilled";
+
+export type ExpirySweepOptions = {
+  now?: Date;
+  graceHours?: number; // Defaults to REQUEST_EXPIRY_GRACE_HOURS
+  dryRun?: boolean; // Report what would change without writing
+};
+
+export type ExpirySweepResult = {
+  cutoff: Date; // Requests required before this were considered
+  dryRun: boolean;
+  cancelled: number;
+  flagged: number;
+  cancelledIds: string[];
+  flaggedIds: string[];
+};
+
+/**
+ * Cancels or flags every open request past requiredBy (plus grace)
+ */
+export async function expireOverdueRequests({
+  now = new Date(),
+  graceHours = getRequestExpiryGraceHours(),
+  dryRun = false,
+}: ExpirySweepOptions = {}): Promise<ExpirySweepResult> {
+  const cutoff = new Date(now.getTime() - graceHours * 60 * 60 * 1000);
+
+  const overdue = await prisma.bloodRequest.findMany({
+    where: {
+      status: { in: [RequestStatus.PENDING, RequestStatus.APPROVED] },
+      requiredBy: { lt: cutoff },
+      deletedAt: null,
+      overdueFlaggedAt: null,
+    },
+    select: {
+      id: true,
+      status: true,
+      quantityFulfilled: true,
+      requesterId: true,
+      patientName: true,
+    },
+    orderBy: { requiredBy: "asc" },
+  });
+
+  const result: ExpirySweepResult = {
+    cutoff,
+    dryRun,
+    cancelled: 0,
+    flagged: 0,
+    cancelledIds: [],
+    flaggedIds: [],
+  };
+
+  for (const item of overdue) {
+    const cancel =
+      item.quantityFulfilled === 0 && canTransition(item.status, "cancel");
+
+    if (!dryRun) {
+      const changed = cancel
+        ? await cancelOverdue(item, now)
+        : await flagOverdue(item, now);
+
+      // Someone acted on the request since it was read; leave it alone
+      if (!changed) continue;
+    }
+
+    if (cancel) {
+      result.cancelled++;
+      result.cancelledIds.push(item.id);
+    } else {
+      result.flagged++;
+      result.flaggedIds.push(item.id);
+    }
+  }
+
+  return result;
+}
+
+type OverdueRequest = {
+  id: string;
+  status: RequestStatus;
+  quantityFulfilled: number;
+  requesterId: string;
+  patientName: string;
+};
+
+async function cancelOverdue(item: OverdueRequest, now: Date) {
+  return prisma.$transaction(async (tx) => {
+    // Guard on the state we read so a concurrent action wins cleanly
+    const { count } = await tx.bloodRequest.updateMany({
+      where: {
+        id: item.id,
+        status: item.status,
+        quantityFulfilled: 0,
+        deletedAt: null,
+      },
+      data: { status: RequestStatus.CANCELLED, cancelledAt: now },
+    });
+
+    if (count === 0) return false;
+
+    await tx.auditLog.create({
+      data: {
+        entityType: "BloodRequest",
+        entityId: item.id,
+        action: "STATUS_CHANGE",
+        changes: {
+          action: "cancel",
+          from: item.status,
+          to: RequestStatus.CANCELLED,
+          reason: EXPIRY_REASON,
+          system: true,
+        },
+      },
+    });
+
+    await tx.notification.create({
+      data: {
+        userId: item.requesterId,
+        type: "REQUEST_CANCELLED" satisfies NotificationType,
+        title: "Blood request cancelled",
+        message: `Your blood request for ${item.patientName} was cancelled because its required-by date passed.`,
+        link: `/blood-requests/${item.id}`,
+      },
+    });
+
+    return true;
+  });
+}
+
+async function flagOverdue(item: OverdueRequest, now: Date) {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.bloodRequest.updateMany({
+      where: {
+        id: item.id,
+        status: item.status,
+        overdueFlaggedAt: null,
+        deletedAt: null,
+      },
+      data: { overdueFlaggedAt: now },
+    });
+
+    if (count === 0) return false;
+
+    await tx.auditLog.create({
+      data: {
+        entityType: "BloodRequest",
+        entityId: item.id,
+        action: "OVERDUE_FLAGGED",
+        changes: {
+          status: item.status,
+          quantityFulfilled: item.quantityFulfilled,
+          system: true,
+        },
+      },
+    });
+
+    await tx.notification.create({
+      data: {
+        userId: item.requesterId,
+        type: "REQUEST_OVERDUE" satisfies NotificationType,
+        title: "Blood request overdue",
+        message: `Your blood request for ${item.patientName} is past its required-by date with ${item.quantityFulfilled} units issued. Please confirm whether the rest is still needed.`,
+        link: `/blood-requests/${item.id}`,
+      },
+    });
+
+    return true;
+  });
+}
@@ -0,0 +1,407 @@
+/**
+ * Blood Request Lifecycle (State Machine)
+ *
+ * Legal status transitions for a blood request:
+ *
+ *   PENDING ──approve──▶ APPROVED ──fulfill──▶ FULFILLED
+ *      │                    │
+ *      ├──reject──▶ REJECTED ◀──reject──┤
+ *      └──cancel──▶ CANCELLED ◀──cancel─┘
+ *
+ * FULFILLED, REJECTED and CANCELLED are terminal states.
+ * Every transition stamps the matching timestamp/actor columns and
+ * writes an AuditLog entry so the history of a request can be traced.
+ * Fulfillment also removes the issued units from blood bank inventory in
+ * the same transaction, substituting a compatible blood group when
+ * requested, and records which units were issued, soonest expiry first
+ * (see src/lib/allocation.ts). A fulfillment may cover only part
+ * of quantityNeeded, possibly from several blood banks; the request stays
+ * APPROVED until quantityFulfilled reaches quantityNeeded.
+ *
+ * Soft-deleted requests cannot be transitioned; restore them first
+ * (see src/lib/request-deletion.ts).
+ */
+
+import {
+  BloodComponent,
+  BloodGroup,
+  Prisma,
+  RequestStatus,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/errors";
+import { requireActor } from "@/lib/actors";
+import { ifMatches, preconditionFailed } from "@/lib/etag";
+import {
+  allocateFromBank,
+  FulfillmentOptions,
+  planAllocations,
+  usableAfter,
+} from "@/lib/allocation";
+
+export type RequestAction = "approve" | "fulfill" | "reject" | "cancel";
+
+export const REQUEST_TRANSITIONS: Record<
+  RequestAction,
+  { from: RequestStatus[]; to: RequestStatus }
+> = {
+  approve: {
+    from: [RequestStatus.PENDING],
+    to: RequestStatus.APPROVED,
+  },
+  fulfill: {
+    from: [RequestStatus.APPROVED],
+    to: RequestStatus.FULFILLED,
+  },
+  reject: {
+    from: [RequestStatus.PENDING, RequestStatus.APPROVED],
+    to: RequestStatus.REJECTED,
+  },
+  cancel: {
+    from: [RequestStatus.PENDING, RequestStatus.APPROVED],
+    to: RequestStatus.CANCELLED,
+  },
+};
+
+// Fields returned with a blood request after a transition
+export const bloodRequestInclude = {
+  requester: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
+  hospital: {
+    select: {
+      id: true,
+      name: true,
+      city: true,
+    },
+  },
+  bloodBank: {
+    select: {
+      id: true,
+      name: true,
+      city: true,
+      state: true,
+    },
+  },
+  allocations: {
+    select: {
+      id: true,
+      quantity: true,
+      bloodGroup: true,
+      createdAt: true,
+      bloodBank: { select: { id: true, name: true, city: true } },
+      units: {
+        select: { serialNumber: true, expiresAt: true },
+        orderBy: { expiresAt: "asc" },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.BloodRequestInclude;
+
+export type TransitionOptions = FulfillmentOptions & {
+  actorId: string; // User performing the transition
+  reason?: string; // Required for reject, optional for cancel
+  ifMatch?: string | null; // If-Match header; refuses the action when stale
+};
+
+// Can a request in `status` move forward with `action`?
+export function canTransition(
+  status: RequestStatus,
+  action: RequestAction
+): boolean {
+  return REQUEST_TRANSITIONS[action].from.includes(status);
+}
+
+/**
+ * Applies a lifecycle action to a blood request
+ *
+ * @throws ApiError 400 - Rejection without a reason
+ * @throws ApiError 404 - Request or actor not found
+ * @throws ApiError 409 - Transition is not allowed from the current status,
+ *                        or stock is insufficient to fulfill the request
+ * @throws ApiError 412 - If-Match does not match the current version
+ */
+export async function transitionBloodRequest(
+  id: string,
+  action: RequestAction,
+  { actorId, reason, ifMatch = null, ...fulfillment }: TransitionOptions
+) {
+  const transition = REQUEST_TRANSITIONS[action];
+
+  if (action === "reject" && !reason?.trim()) {
+    throw new ApiError(
+      400,
+      "VALIDATION_ERROR",
+      "A rejection reason is required",
+      { field: "reason" }
+    );
+  }
+
+  await requireActor(actorId);
+
+  return prisma.$transaction(async (tx) => {
+    const current = await tx.bloodRequest.findFirst({
+      where: { id, deletedAt: null },
+      select: {
+        id: true,
+        status: true,
+        bloodGroup: true,
+        component: true,
+        purpose: true,
+        quantityNeeded: true,
+        quantityFulfilled: true,
+        bloodBankId: true,
+        updatedAt: true,
+      },
+    });
+
+    if (!current) {
+      throw new ApiError(404, "NOT_FOUND", "Blood request not found");
+    }
+
+    if (!ifMatches(ifMatch, current)) {
+      throw preconditionFailed(
+        await tx.bloodRequest.findUniqueOrThrow({
+          where: { id },
+          include: bloodRequestInclude,
+        })
+      );
+    }
+
+    if (!canTransition(current.status, action)) {
+      throw invalidTransition(action, current.status);
+    }
+
+    const plan =
+      action === "fulfill"
+        ? planAllocations(
+            {
+              bloodBankId: current.bloodBankId,
+              quantityRemaining:
+                current.quantityNeeded - current.quantityFulfilled,
+            },
+            fulfillment
+          )
+        : [];
+
+    const now = new Date();
+    let nextStatus = transition.to;
+    let quantityFulfilled = current.quantityFulfilled;
+    const stamps: Prisma.BloodRequestUpdateManyMutationInput = {};
+
+    switch (action) {
+      case "approve":
+        stamps.approvedAt = now;
+        stamps.approvedBy = actorId;
+        break;
+      case "fulfill":
+        // Partial fulfillment keeps the request APPROVED until it is met
+        quantityFulfilled += plan.reduce((sum, item) => sum + item.quantity, 0);
+        stamps.quantityFulfilled = quantityFulfilled;
+
+        if (quantityFulfilled >= current.quantityNeeded) {
+          stamps.fulfilledAt = now;
+        } else {
+          nextStatus = current.status;
+        }
+        break;
+      case "reject":
+        stamps.rejectionReason = reason!.trim();
+        break;
+      case "cancel":
+        stamps.cancelledAt = now;
+        break;
+    }
+
+    stamps.status = nextStatus;
+
+    // Guard on the state we read so concurrent transitions cannot both win
+    const { count } = await tx.bloodRequest.updateMany({
+      where: {
+        id,
+        status: current.status,
+        quantityNeeded: current.quantityNeeded,
+        quantityFulfilled: current.quantityFulfilled,
+        deletedAt: null,
+        // With If-Match, any concurrent edit makes the action stale
+        ...(ifMatch !== null && { updatedAt: current.updatedAt }),
+      },
+      data: stamps,
+    });
+
+    if (count === 0) {
+      const latest = await tx.bloodRequest.findUnique({
+        where: { id },
+        include: bloodRequestInclude,
+      });
+
+      if (latest && ifMatch !== null && !ifMatches(ifMatch, latest)) {
+        throw preconditionFailed(latest);
+      }
+
+      throw invalidTransition(action, latest?.status ?? current.status);
+    }
+
+    // Any stock error throws and rolls back the status change above
+    const allocations = [];
+    for (const item of plan) {
+      const issued = await allocateFromBank(
+        tx,
+        {
+          bloodBankId: item.bloodBankId,
+          bloodGroup: current.bloodGroup,
+          component: current.component,
+          quantity: item.quantity,
+          expiresAfter: usableAfter(
+            current.purpose,
+            fulfillment.minShelfLifeDays,
+            now
+          ),
+        },
+        {
+          issuedBloodGroup: item.issuedBloodGroup,
+          allowSubstitution: fulfillment.allowSubstitution,
+        }
+      );
+
+      const { units, ...inventory } = issued.inventory;
+
+      const allocation = await tx.bloodRequestAllocation.create({
+        data: {
+          bloodRequestId: id,
+          bloodBankId: item.bloodBankId,
+          bloodGroup: issued.issuedBloodGroup,
+          quantity: item.quantity,
+          allocatedBy: actorId,
+        },
+      });
+
+      await tx.bloodUnit.updateMany({
+        where: { id: { in: units.map((unit) => unit.id) } },
+        data: { allocationId: allocation.id },
+      });
+
+      allocations.push({
+        ...issued,
+        inventory,
+        quantity: item.quantity,
+        units: units.map((unit) => unit.serialNumber),
+      });
+    }
+
+    await tx.auditLog.create({
+      data: {
+        entityType: "BloodRequest",
+        entityId: id,
+        action: "STATUS_CHANGE",
+        changes: {
+          action,
+          from: current.status,
+          to: nextStatus,
+          ...(reason && { reason: reason.trim() }),
+          ...(action === "fulfill" && {
+            quantityFulfilled,
+            allocations,
+          }),
+        },
+        performedBy: actorId,
+      },
+    });
+
+    return tx.bloodRequest.findUniqueOrThrow({
+      where: { id },
+      include: bloodRequestInclude,
+    });
+  });
+}
+
+/**
+ * Checks a PUT/PATCH edit against the request as it stands
+ *
+ * Once a request has left PENDING or had units issued, what was approved
+ * and issued must keep matching it: bloodGroup and component can no
+ * longer change and quantityNeeded can only go up.
+ *
+ * @throws ApiError 409 QUANTITY_BELOW_FULFILLED - quantityNeeded would be
+ *                      less than the units already issued
+ * @throws ApiError 409 CLINICAL_FIELDS_LOCKED - Clinical fields changed
+ *                      after approval or issue
+ */
+export function checkRequestEdit(
+  current: {
+    status: RequestStatus;
+    bloodGroup: BloodGroup;
+    component: BloodComponent;
+    quantityNeeded: number;
+    quantityFulfilled: number;
+  },
+  edit: Prisma.BloodRequestUncheckedUpdateInput
+) {
+  if (
+    typeof edit.quantityNeeded === "number" &&
+    edit.quantityNeeded < current.quantityFulfilled
+  ) {
+    throw new ApiError(
+      409,
+      "QUANTITY_BELOW_FULFILLED",
+      `quantityNeeded cannot be less than the ${current.quantityFulfilled} units already issued`,
+      {
+        field: "quantityNeeded",
+        quantityFulfilled: current.quantityFulfilled,
+      }
+    );
+  }
+
+  if (
+    current.status === RequestStatus.PENDING &&
+    current.quantityFulfilled === 0
+  ) {
+    return;
+  }
+
+  const locked = [
+    edit.bloodGroup !== undefined &&
+      edit.bloodGroup !== current.bloodGroup &&
+      "bloodGroup",
+    edit.component !== undefined &&
+      edit.component !== current.component &&
+      "component",
+    typeof edit.quantityNeeded === "number" &&
+      edit.quantityNeeded < current.quantityNeeded &&
+      "quantityNeeded",
+  ].filter((field): field is string => Boolean(field));
+
+  if (locked.length > 0) {
+    const fields = locked.join(", ");
+
+    throw new ApiError(
+      409,
+      "CLINICAL_FIELDS_LOCKED",
+      `Cannot change ${fields} once a blood request is approved or has units issued`,
+      {
+        fields: locked,
+        status: current.status,
+        quantityFulfilled: current.quantityFulfilled,
+      }
+    );
+  }
+}
+
+function invalidTransition(action: RequestAction, status: RequestStatus) {
+  return new ApiError(
+    409,
+    "INVALID_TRANSITION",
+    `Cannot ${action} a blood request that is ${status}`,
+    {
+      action,
+      currentStatus: status,
+      allowedFrom: REQUEST_TRANSITIONS[action].from,
+    }
+  );
+}
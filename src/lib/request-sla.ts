@@ -0,0 +1,213 @@
+/**
+ * Service Levels for Blood Requests
+ *
+ * Each urgency level has two targets, both measured from createdAt:
+ *
+ * | Urgency  | Approval | Fulfillment |
+ * |----------|----------|-------------|
+ * | CRITICAL | 1h       | 4h          |
+ * | URGENT   | 4h       | 24h         |
+ * | NORMAL   | 24h      | 72h         |
+ *
+ * Override them with URGENCY_SLA_TARGETS (see src/lib/env.ts). Targets
+ * follow the request's current urgency, so an escalated request is held to
+ * the tighter target (see src/lib/urgency-escalation.ts).
+ *
+ * A phase is:
+ * - on-track: done in time, or still open with time to spare
+ * - at-risk:  still open and AT_RISK_RATIO of the target has elapsed
+ * - breached: done late, or still open past the target
+ *
+ * Phases a rejected or cancelled request never reached have no status.
+ * The request's overall status is its worst phase.
+ *
+ * Usage:
+ * return NextResponse.json({ success: true, data: withSla(bloodRequest) });
+ */
+
+import { RequestStatus } from "@prisma/client";
+import { getUrgencySlaTargets } from "@/lib/env";
+import { Urgency, isValidUrgency } from "@/types";
+
+export type SlaStatus = "on-track" | "at-risk" | "breached";
+
+export type SlaTarget = {
+  approvalHours: number;
+  fulfillmentHours: number;
+};
+
+export const DEFAULT_SLA_TARGETS: Record<Urgency, SlaTarget> = {
+  CRITICAL: { approvalHours: 1, fulfillmentHours: 4 },
+  URGENT: { approvalHours: 4, fulfillmentHours: 24 },
+  NORMAL: { approvalHours: 24, fulfillmentHours: 72 },
+};
+
+// Share of a target that may elapse before an open phase is at risk
+export const AT_RISK_RATIO = 0.75;
+
+const SLA_SEVERITY: Record<SlaStatus, number> = {
+  "on-track": 0,
+  "at-risk": 1,
+  breached: 2,
+};
+
+/**
+ * Parses a LEVEL:APPROVAL_HOURS:FULFILLMENT_HOURS list over the defaults,
+ * e.g. "CRITICAL:0.5:2,NORMAL:48:120"
+ *
+ * @throws Error - A target is malformed
+ */
+export function parseSlaTargets(
+  spec: string | null
+): Record<Urgency, SlaTarget> {
+  const targets = { ...DEFAULT_SLA_TARGETS };
+  if (spec === null) return targets;
+
+  spec
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .forEach((item) => {
+      const [level, approval, fulfillment] = item
+        .split(":")
+        .map((part) => part.trim());
+      const approvalHours = Number(approval);
+      const fulfillmentHours = Number(fulfillment);
+
+      if (
+        !level ||
+        !isValidUrgency(level.toUpperCase()) ||
+        !Number.isFinite(approvalHours) ||
+        !Number.isFinite(fulfillmentHours) ||
+        approvalHours <= 0 ||
+        fulfillmentHours < approvalHours
+      ) {
+        throw new Error(
+          `Invalid SLA target "${item}"; expected LEVEL:APPROVAL_HOURS:FULFILLMENT_HOURS with fulfillment >= approval, e.g. URGENT:4:24`
+        );
+      }
+
+      targets[level.toUpperCase() as Urgency] = {
+        approvalHours,
+        fulfillmentHours,
+      };
+    });
+
+  return targets;
+}
+
+export type SlaPhase = {
+  targetHours: number;
+  dueAt: Date;
+  completedAt: Date | null;
+  status: SlaStatus | null; // null when the request closed before this phase
+};
+
+export type RequestSla = {
+  status: SlaStatus | null;
+  approval: SlaPhase;
+  fulfillment: SlaPhase;
+};
+
+type SlaInput = {
+  urgency: Urgency;
+  status: RequestStatus;
+  createdAt: Date;
+  approvedAt: Date | null;
+  fulfilledAt: Date | null;
+};
+
+const OPEN_STATUSES: RequestStatus[] = [
+  RequestStatus.PENDING,
+  RequestStatus.APPROVED,
+];
+
+function phase(
+  createdAt: Date,
+  targetHours: number,
+  completedAt: Date | null,
+  open: boolean,
+  now: Date
+): SlaPhase {
+  const targetMs = targetHours * 60 * 60 * 1000;
+  const dueAt = new Date(createdAt.getTime() + targetMs);
+
+  let status: SlaStatus | null = null;
+
+  if (completedAt) {
+    status = completedAt > dueAt ? "breached" : "on-track";
+  } else if (open) {
+    const elapsed = (now.getTime() - createdAt.getTime()) / targetMs;
+    status =
+      elapsed >= 1
+        ? "breached"
+        : elapsed >= AT_RISK_RATIO
+        ? "at-risk"
+        : "on-track";
+  }
+
+  return { targetHours, dueAt, completedAt, status };
+}
+
+/**
+ * SLA status of a blood request at `now`
+ */
+export function slaFor(
+  request: SlaInput,
+  now: Date = new Date(),
+  targets: Record<Urgency, SlaTarget> = parseSlaTargets(getUrgencySlaTargets())
+): RequestSla {
+  const target = targets[request.urgency];
+  const open = OPEN_STATUSES.includes(request.status);
+
+  const approval = phase(
+    request.createdAt,
+    target.approvalHours,
+    request.approvedAt,
+    open,
+    now
+  );
+  const fulfillment = phase(
+    request.createdAt,
+    target.fulfillmentHours,
+    request.fulfilledAt,
+    open,
+    now
+  );
+
+  const statuses = [approval.status, fulfillment.status].filter(
+    (status): status is SlaStatus => status !== null
+  );
+
+  return {
+    status: statuses.length
+      ? statuses.reduce((worst, status) =>
+          SLA_SEVERITY[status] > SLA_SEVERITY[worst] ? status : worst
+        )
+      : null,
+    approval,
+    fulfillment,
+  };
+}
+
+/**
+ * Adds an `sla` field to a blood request for API responses
+ */
+export function withSla<T extends SlaInput>(
+  request: T,
+  now: Date = new Date(),
+  targets: Record<Urgency, SlaTarget> = parseSlaTargets(getUrgencySlaTargets())
+): T & { sla: RequestSla } {
+  return { ...request, sla: slaFor(request, now, targets) };
+}
+
+/**
+ * withSla for a list, evaluated at one instant with one set of targets
+ */
+export function withSlaAll<T extends SlaInput>(
+  requests: T[],
+  now: Date = new Date()
+): (T & { sla: RequestSla })[] {
+  const targets = parseSlaTargets(getUrgencySlaTargets());
+  return requests.map((request) => withSla(request, now, targets));
+}
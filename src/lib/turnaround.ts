@@ -0,0 +1,237 @@
+/**
+ * Blood Request Turnaround Analytics
+ *
+ * Measures how long requests take through the lifecycle, in hours:
+ *
+ * - approval:    createdAt -> approvedAt
+ * - fulfillment: createdAt -> fulfilledAt
+ * - dispatch:    approvedAt -> fulfilledAt
+ *
+ * Each duration is summarised as p50/p90/p99 (linear interpolation, like
+ * PostgreSQL's percentile_cont) overall and by blood bank, urgency, blood
+ * group and month created (UTC). Requests that have not reached a stage
+ * are left out of that stage's percentiles. SLA breaches are counted
+ * against the targets in src/lib/request-sla.ts.
+ *
+ * Rejections are broken down by rejectionReason. Reasons are free text, so
+ * they are grouped ignoring case and surrounding whitespace.
+ *
+ * Requests are summarised in memory, so reports cover a bounded createdAt
+ * window of at most MAX_REPORT_WINDOW_DAYS.
+ */
+
+import { BloodGroup, RequestStatus } from "@prisma/client";
+import { ApiError } from "@/lib/errors";
+import { SlaTarget, parseSlaTargets, slaFor } from "@/lib/request-sla";
+import { getUrgencySlaTargets } from "@/lib/env";
+import { BloodRequestFilter, Urgency } from "@/types";
+
+export type TurnaroundInput = {
+  status: RequestStatus;
+  urgency: Urgency;
+  bloodGroup: BloodGroup;
+  rejectionReason: string | null;
+  createdAt: Date;
+  approvedAt: Date | null;
+  fulfilledAt: Date | null;
+  bloodBank: { id: string; name: string } | null;
+};
+
+export type Percentiles = {
+  count: number;
+  p50: number | null;
+  p90: number | null;
+  p99: number | null;
+};
+
+export type TurnaroundStats = {
+  requests: number;
+  approval: Percentiles;
+  fulfillment: Percentiles;
+  dispatch: Percentiles;
+  slaBreaches: { approval: number; fulfillment: number };
+};
+
+export type RejectionBreakdown = {
+  total: number; // Requests in scope
+  rejected: number;
+  rate: number; // rejected / total
+  byReason: { reason: string; count: number; share: number }[];
+};
+
+export const UNASSIGNED_BANK = "UNASSIGNED";
+export const UNSPECIFIED_REASON = "Unspecified";
+
+// A year, leap years included
+export const MAX_REPORT_WINDOW_DAYS = 366;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Requires the filter to name a createdAt window of at most
+ * MAX_REPORT_WINDOW_DAYS
+ *
+ * @throws ApiError 400 VALIDATION_ERROR - Window missing or too long
+ */
+export function requireReportWindow({ fromDate, toDate }: BloodRequestFilter) {
+  if (!fromDate || !toDate) {
+    throw new ApiError(
+      400,
+      "VALIDATION_ERROR",
+      "fromDate and toDate are required",
+      { field: fromDate ? "toDate" : "fromDate" }
+    );
+  }
+
+  const days = (toDate.getTime() - fromDate.getTime()) / (24 * HOUR_MS);
+
+  if (days > MAX_REPORT_WINDOW_DAYS) {
+    throw new ApiError(
+      400,
+      "VALIDATION_ERROR",
+      `createdAt window must be at most ${MAX_REPORT_WINDOW_DAYS} days`,
+      { field: "createdAt", maxDays: MAX_REPORT_WINDOW_DAYS }
+    );
+  }
+}
+
+const round = (value: number, digits = 2) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Percentile of an ascending list, interpolating between neighbours
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function percentiles(hours: number[]): Percentiles {
+  const sorted = [...hours].sort((a, b) => a - b);
+  const at = (p: number) => {
+    const value = percentile(sorted, p);
+    return value === null ? null : round(value);
+  };
+
+  return { count: sorted.length, p50: at(0.5), p90: at(0.9), p99: at(0.99) };
+}
+
+const hoursBetween = (from: Date | null, to: Date | null) =>
+  from && to ? (to.getTime() - from.getTime()) / HOUR_MS : null;
+
+function stats(
+  requests: TurnaroundInput[],
+  targets: Record<Urgency, SlaTarget>,
+  now: Date
+): TurnaroundStats {
+  const collect = (pick: (item: TurnaroundInput) => number | null) =>
+    requests
+      .map(pick)
+      .filter((value): value is number => value !== null && value >= 0);
+
+  const slas = requests.map((item) => slaFor(item, now, targets));
+
+  return {
+    requests: requests.length,
+    approval: percentiles(
+      collect((item) => hoursBetween(item.createdAt, item.approvedAt))
+    ),
+    fulfillment: percentiles(
+      collect((item) => hoursBetween(item.createdAt, item.fulfilledAt))
+    ),
+    dispatch: percentiles(
+      collect((item) => hoursBetween(item.approvedAt, item.fulfilledAt))
+    ),
+    slaBreaches: {
+      approval: slas.filter((sla) => sla.approval.status === "breached").length,
+      fulfillment: slas.filter((sla) => sla.fulfillment.status === "breached")
+        .length,
+    },
+  };
+}
+
+function groupBy<K extends string>(
+  requests: TurnaroundInput[],
+  keyOf: (item: TurnaroundInput) => K
+) {
+  const groups = new Map<K, TurnaroundInput[]>();
+
+  for (const item of requests) {
+    const key = keyOf(item);
+    const group = groups.get(key);
+
+    if (group) group.push(item);
+    else groups.set(key, [item]);
+  }
+
+  return Array.from(groups.entries()).sort(([a], [b]) =>
+    a < b ? -1 : a > b ? 1 : 0
+  );
+}
+
+export function rejectionBreakdown(
+  requests: TurnaroundInput[]
+): RejectionBreakdown {
+  const rejected = requests.filter(
+    (item) => item.status === RequestStatus.REJECTED
+  );
+  const reasons = new Map<string, { reason: string; count: number }>();
+
+  for (const item of rejected) {
+    const reason = item.rejectionReason?.trim() || UNSPECIFIED_REASON;
+    const key = reason.toLowerCase();
+    const entry = reasons.get(key) ?? { reason, count: 0 };
+    entry.count++;
+    reasons.set(key, entry);
+  }
+
+  return {
+    total: requests.length,
+    rejected: rejected.length,
+    rate: requests.length ? round(rejected.length / requests.length, 4) : 0,
+    byReason: Array.from(reasons.values())
+      .sort((a, b) => b.count - a.count || a.reason.localeCompare(b.reason))
+      .map((entry) => ({
+        ...entry,
+        share: round(entry.count / rejected.length, 4),
+      })),
+  };
+}
+
+/**
+ * Turnaround percentiles overall and per dimension, plus rejections
+ */
+export function summarizeTurnaround(
+  requests: TurnaroundInput[],
+  now: Date = new Date()
+) {
+  const targets = parseSlaTargets(getUrgencySlaTargets());
+  const summarize = (group: TurnaroundInput[]) => stats(group, targets, now);
+
+  return {
+    overall: summarize(requests),
+    byBloodBank: groupBy(
+      requests,
+      (item) => item.bloodBank?.id ?? UNASSIGNED_BANK
+    ).map(([bloodBankId, group]) => ({
+      bloodBankId: bloodBankId === UNASSIGNED_BANK ? null : bloodBankId,
+      name: group[0].bloodBank?.name ?? null,
+      ...summarize(group),
+    })),
+    byUrgency: groupBy(requests, (item) => item.urgency).map(
+      ([urgency, group]) => ({ urgency, ...summarize(group) })
+    ),
+    byBloodGroup: groupBy(requests, (item) => item.bloodGroup).map(
+      ([bloodGroup, group]) => ({ bloodGroup, ...summarize(group) })
+    ),
+    byMonth: groupBy(requests, (item) =>
+      item.createdAt.toISOString().slice(0, 7)
+    ).map(([month, group]) => ({ month, ...summarize(group) })),
+    rejections: rejectionBreakdown(requests),
+  };
+}
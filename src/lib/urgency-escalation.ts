@@ -0,0 +1,271 @@
+/**
+ * Urgency Escalation as requiredBy Approaches
+ *
+ * Urgency is chosen once at creation, but a NORMAL request due in two hours
+ * is no longer normal. The escalation sweep raises the urgency of open
+ * (PENDING or APPROVED) requests according to configurable rules:
+ *
+ * - NORMAL -> URGENT within 24h of requiredBy
+ * - URGENT -> CRITICAL within 6h of requiredBy
+ *
+ * Rules chain, so a NORMAL request found 3h before requiredBy goes straight
+ * to CRITICAL. Urgency only ever goes up. Override the rules with
+ * URGENCY_ESCALATION_RULES (see src/lib/env.ts).
+ *
+ * Each escalation writes an AuditLog entry (performedBy is null for the
+ * system) and notifies the manager of the assigned blood bank.
+ *
+ * Run it from cron with `npm run requests:escalate` or
+ * POST /api/internal/blood-requests/escalate.
+ */
+
+import { BloodGroup, RequestStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getUrgencyEscalationRules } from "@/lib/env";
+import {
+  NotificationType,
+  URGENCY_LEVELS,
+  Urgency,
+  formatBloodGroup,
+  isValidUrgency,
+} from "@/types";
+
+export type EscalationRule = {
+  from: Urgency;
+  to: Urgency;
+  withinHours: number; // Applies once requiredBy is this close (or past)
+};
+
+export const DEFAULT_ESCALATION_RULES: EscalationRule[] = [
+  { from: "NORMAL", to: "URGENT", withinHours: 24 },
+  { from: "URGENT", to: "CRITICAL", withinHours: 6 },
+];
+
+// URGENCY_LEVELS is ordered most severe first
+const severity = (urgency: Urgency) =>
+  URGENCY_LEVELS.length - URGENCY_LEVELS.indexOf(urgency);
+
+/**
+ * Parses a FROM:TO:HOURS list, e.g. "NORMAL:URGENT:24,URGENT:CRITICAL:6"
+ *
+ * null means "use the defaults"; "none" disables escalation.
+ *
+ * @throws Error - A rule is malformed or would lower urgency
+ */
+export function parseEscalationRules(spec: string | null): EscalationRule[] {
+  if (spec === null) return DEFAULT_ESCALATION_RULES;
+  if (spec.trim().toLowerCase() === "none") return [];
+
+  return spec
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => {
+      const [from, to, hours] = item.split(":").map((part) => part.trim());
+      const withinHours = Number(hours);
+
+      if (
+        !from ||
+        !to ||
+        !isValidUrgency(from.toUpperCase()) ||
+        !isValidUrgency(to.toUpperCase()) ||
+        !Number.isFinite(withinHours) ||
+        withinHours <= 0
+      ) {
+        throw new Error(
+          `Invalid urgency escalation rule "${item}"; expected FROM:TO:HOURS, e.g. NORMAL:URGENT:24`
+        );
+      }
+
+      const rule = {
+        from: from.toUpperCase() as Urgency,
+        to: to.toUpperCase() as Urgency,
+        withinHours,
+      };
+
+      if (severity(rule.to) <= severity(rule.from)) {
+        throw new Error(
+          `Invalid urgency escalation rule "${item}"; urgency can only be raised`
+        );
+      }
+
+      return rule;
+    });
+}
+
+/**
+ * Urgency a request should have given the hours left until requiredBy
+ *
+ * Returns the current urgency when no rule applies.
+ */
+export function escalatedUrgency(
+  urgency: Urgency,
+  hoursLeft: number,
+  rules: EscalationRule[]
+): Urgency {
+  let current = urgency;
+
+  // Each step raises severity, so this ends after at most one pass per level
+  for (let step = 0; step < URGENCY_LEVELS.length; step++) {
+    const rule = rules.find(
+      (item) =>
+        item.from === current &&
+        hoursLeft <= item.withinHours &&
+        severity(item.to) > severity(current)
+    );
+
+    if (!rule) break;
+    current = rule.to;
+  }
+
+  return current;
+}
+
+export type EscalationSweepOptions = {
+  now?: Date;
+  rules?: EscalationRule[]; // Defaults to URGENCY_ESCALATION_RULES
+  dryRun?: boolean; // Report what would change without writing
+};
+
+export type Escalation = {
+  id: string;
+  from: Urgency;
+  to: Urgency;
+  requiredBy: Date;
+};
+
+export type EscalationSweepResult = {
+  checkedAt: Date;
+  dryRun: boolean;
+  escalated: number;
+  escalations: Escalation[];
+};
+
+/**
+ * Raises the urgency of every open request that a rule applies to
+ */
+export async function escalateRequestUrgency({
+  now = new Date(),
+  rules = parseEscalationRules(getUrgencyEscalationRules()),
+  dryRun = false,
+}: EscalationSweepOptions = {}): Promise<EscalationSweepResult> {
+  const result: EscalationSweepResult = {
+    checkedAt: now,
+    dryRun,
+    escalated: 0,
+    escalations: [],
+  };
+
+  if (rules.length === 0) return result;
+
+  const horizon = Math.max(...rules.map((rule) => rule.withinHours));
+
+  const candidates = await prisma.bloodRequest.findMany({
+    where: {
+      status: { in: [RequestStatus.PENDING, RequestStatus.APPROVED] },
+      urgency: { in: Array.from(new Set(rules.map((rule) => rule.from))) },
+      requiredBy: { lte: new Date(now.getTime() + horizon * 60 * 60 * 1000) },
+      deletedAt: null,
+    },
+    select: {
+      id: true,
+      urgency: true,
+      requiredBy: true,
+      bloodGroup: true,
+      quantityNeeded: true,
+      patientName: true,
+      bloodBank: { select: { name: true, managerId: true } },
+    },
+    orderBy: { requiredBy: "asc" },
+  });
+
+  for (const item of candidates) {
+    const hoursLeft =
+      (item.requiredBy.getTime() - now.getTime()) / (60 * 60 * 1000);
+    const to = escalatedUrgency(item.urgency, hoursLeft, rules);
+
+    if (to === item.urgency) continue;
+
+    const escalation: Escalation = {
+      id: item.id,
+      from: item.urgency,
+      to,
+      requiredBy: item.requiredBy,
+    };
+
+    if (!dryRun) {
+      const changed = await applyEscalation(item, escalation, hoursLeft);
+
+      // Someone changed the urgency or status since it was read
+      if (!changed) continue;
+    }
+
+    result.escalated++;
+    result.escalations.push(escalation);
+  }
+
+  return result;
+}
+
+type EscalationCandidate = {
+  id: string;
+  bloodGroup: BloodGroup;
+  quantityNeeded: number;
+  patientName: string;
+  bloodBank: { name: string; managerId: string | null } | null;
+};
+
+async function applyEscalation(
+  item: EscalationCandidate,
+  { id, from, to, requiredBy }: Escalation,
+  hoursLeft: number
+) {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.bloodRequest.updateMany({
+      where: {
+        id,
+        urgency: from,
+        status: { in: [RequestStatus.PENDING, RequestStatus.APPROVED] },
+        deletedAt: null,
+      },
+      data: { urgency: to },
+    });
+
+    if (count === 0) return false;
+
+    await tx.auditLog.create({
+      data: {
+        entityType: "BloodRequest",
+        entityId: id,
+        action: "URGENCY_ESCALATED",
+        changes: {
+          from,
+          to,
+          requiredBy,
+          hoursLeft: Math.round(hoursLeft * 10) / 10,
+          system: true,
+        },
+      },
+    });
+
+    if (item.bloodBank?.managerId) {
+      const bloodGroup = formatBloodGroup(item.bloodGroup);
+
+      await tx.notification.create({
+        data: {
+          userId: item.bloodBank.managerId,
+          type: "REQUEST_ESCALATED" satisfies NotificationType,
+          title: `Blood request escalated to ${to}`,
+          message: `${item.quantityNeeded} units of ${bloodGroup} for ${
+            item.patientName
+          } are required by ${requiredBy.toISOString()} at ${
+            item.bloodBank.name
+          }. Urgency raised from ${from} to ${to}.`,
+          link: `/blood-requests/${id}`,
+        },
+      });
+    }
+
+    return true;
+  });
+}
@@ -0,0 +1,117 @@
+/**
+ * Request Body Validation
+ *
+ * Route handlers validate JSON bodies against zod schemas and report every
+ * problem at once, one entry per field, in the standard error envelope:
+ *
+ * {
+ *   success: false,
+ *   error: {
+ *     code: "VALIDATION_ERROR",
+ *     message: "Invalid request body",
+ *     details: { fields: [{ field: "patientAge", message: "..." }] }
+ *   }
+ * }
+ *
+ * Usage:
+ * const input = await parseBody(request, bloodRequestCreateSchema);
+ */
+
+import { z } from "zod";
+import { ApiError } from "@/lib/errors";
+
+export type FieldError = {
+  field: string;
+  message: string;
+};
+
+// ISO 8601 date-time with a Z or numeric offset, converted to a Date.
+// Other formats Date.parse happens to accept are rejected.
+export const dateInput = z
+  .string()
+  .datetime({
+    offset: true,
+    message: "Must be an ISO 8601 date-time, e.g. 2026-01-20T00:00:00.000Z",
+  })
+  .transform((value) => new Date(value));
+
+export const idInput = z.string().uuid("Must be a valid UUID");
+
+export function toFieldErrors(error: z.ZodError): FieldError[] {
+  return error.issues.flatMap((issue) => {
+    const path = issue.path.join(".");
+
+    // Report each unknown key as its own field
+    if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+      return issue.keys.map((key) => ({
+        field: path ? `${path}.${key}` : key,
+        message: "Unknown field",
+      }));
+    }
+
+    return [{ field: path || "body", message: issue.message }];
+  });
+}
+
+/**
+ * Validates a value against a schema
+ *
+ * @throws ApiError 400 VALIDATION_ERROR - details.fields lists each problem
+ */
+export function validate<T extends z.ZodTypeAny>(
+  schema: T,
+  value: unknown
+): z.infer<T> {
+  const result = schema.safeParse(value);
+
+  if (!result.success) {
+    throw new ApiError(400, "VALIDATION_ERROR", "Invalid request body", {
+      fields: toFieldErrors(result.error),
+    });
+  }
+
+  return result.data;
+}
+
+/**
+ * Reads the JSON body of a request and validates it
+ *
+ * When `contentTypes` is given, the Content-Type header must be one of them.
+ *
+ * @throws ApiError 400 VALIDATION_ERROR - Body is not JSON or fails the schema
+ * @throws ApiError 415 UNSUPPORTED_MEDIA_TYPE - Content-Type not accepted
+ */
+export async function parseBody<T extends z.ZodTypeAny>(
+  request: Request,
+  schema: T,
+  contentTypes?: string[]
+): Promise<z.infer<T>> {
+  if (contentTypes) {
+    // Ignore parameters such as "; charset=utf-8"
+    const contentType = request.headers.get("Content-Type");
+    const mediaType = contentType?.split(";")[0].trim().toLowerCase();
+
+    if (!mediaType || !contentTypes.includes(mediaType)) {
+      throw new ApiError(
+        415,
+        "UNSUPPORTED_MEDIA_TYPE",
+        `Content-Type must be ${contentTypes.join(" or ")}`,
+        { contentType, supported: contentTypes }
+      );
+    }
+  }
+
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError(
+      400,
+      "VALIDATION_ERROR",
+      "Request body must be valid JSON"
+    );
+  }
+
+  return validate(schema, body);
+}
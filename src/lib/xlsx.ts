@@ -0,0 +1,361 @@
+/**
+ * Streaming XLSX Writer
+ *
+ * Writes a single-sheet workbook row by row, so exports never hold the
+ * whole sheet in memory. An XLSX file is a ZIP archive of XML parts; the
+ * sheet part is deflated as rows arrive and its sizes and CRC go in a data
+ * descriptor after the data, which is why the archive can be streamed.
+ *
+ * Only what exports need is supported: one sheet with a frozen header row,
+ * numbers, and text as inline strings (no shared strings table). Dates are
+ * written as ISO 8601 text so no number formats are required. There is no
+ * ZIP64 support, so a part over 4 GiB fails the stream; callers should stay
+ * within XLSX_MAX_ROWS, which keeps exports well under that.
+ *
+ * Usage:
+ * for await (const chunk of xlsxChunks("Requests", headers, rows)) {
+ *   controller.enqueue(chunk);
+ * }
+ */
+
+import { Readable } from "stream";
+import { createDeflateRaw } from "zlib";
+
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// Excel's limit per sheet, header row included
+export const XLSX_MAX_ROWS = 1048576;
+
+// Largest size a ZIP without ZIP64 records
+const ZIP_MAX_SIZE = 0xffffffff;
+
+export type Cell = string | number | Date | null | undefined;
+
+// ============================================
+// ZIP CONTAINER
+// ============================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(chunk: Buffer, previous = 0) {
+  let crc = previous ^ 0xffffffff;
+  for (const byte of chunk) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields used by ZIP headers
+function dosDateTime(date: Date) {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+// Bit 3: sizes and CRC follow the data; bit 11: UTF-8 file names
+const ZIP_FLAGS = 0x0808;
+const DEFLATE = 8;
+
+type ZipEntry = {
+  name: string;
+  content: AsyncIterable<Buffer> | Iterable<Buffer>;
+};
+
+async function* zipChunks(entries: ZipEntry[]): AsyncGenerator<Buffer> {
+  const { time, date } = dosDateTime(new Date());
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const stats = { crc: 0, size: 0, compressed: 0 };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(ZIP_FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt16LE(name.length, 26);
+    yield Buffer.concat([header, name]);
+
+    // Tally the uncompressed bytes on their way into the deflater
+    const counted = (async function* () {
+      for await (const chunk of entry.content) {
+        stats.crc = crc32(chunk, stats.crc);
+        stats.size += chunk.length;
+
+        if (stats.size > ZIP_MAX_SIZE) {
+          throw new Error(`${entry.name} is too large for a ZIP without ZIP64`);
+        }
+
+        yield chunk;
+      }
+    })();
+
+    const source = Readable.from(counted);
+    const deflate = createDeflateRaw();
+    source.on("error", (error) => deflate.destroy(error));
+
+    for await (const chunk of source.pipe(deflate) as AsyncIterable<Buffer>) {
+      stats.compressed += chunk.length;
+      yield chunk;
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(stats.crc, 4);
+    descriptor.writeUInt32LE(stats.compressed, 8);
+    descriptor.writeUInt32LE(stats.size, 12);
+    yield descriptor;
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(20, 4);
+    record.writeUInt16LE(20, 6);
+    record.writeUInt16LE(ZIP_FLAGS, 8);
+    record.writeUInt16LE(DEFLATE, 10);
+    record.writeUInt16LE(time, 12);
+    record.writeUInt16LE(date, 14);
+    record.writeUInt32LE(stats.crc, 16);
+    record.writeUInt32LE(stats.compressed, 20);
+    record.writeUInt32LE(stats.size, 24);
+    record.writeUInt16LE(name.length, 28);
+    record.writeUInt32LE(offset, 42);
+    central.push(record, name);
+
+    offset +=
+      header.length + name.length + stats.compressed + descriptor.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  yield directory;
+  yield end;
+}
+
+// ============================================
+// SPREADSHEETML PARTS
+// ============================================
+
+// Characters XML 1.0 does not allow, even escaped
+// eslint-disable-next-line no-control-regex
+const INVALID_XML = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g;
+
+function escapeXml(value: string) {
+  return value
+    .replace(INVALID_XML, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// ` key="value"` for each attribute, escaped
+function attributes(attrs: Record<string, string | number>) {
+  return Object.entries(attrs)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join("");
+}
+
+function element(
+  name: string,
+  attrs: Record<string, string | number>,
+  children = ""
+) {
+  return children
+    ? `<${name}${attributes(attrs)}>${children}</${name}>`
+    : `<${name}${attributes(attrs)}/>`;
+}
+
+const XML_HEADER = `<?xml${attributes({
+  version: "1.0",
+  encoding: "UTF-8",
+  standalone: "yes",
+})}?>\n`;
+
+const NS = {
+  main: "http://schemas.openxmlformats.org/spreadsheetml/2006/main",
+  contentTypes: "http://schemas.openxmlformats.org/package/2006/content-types",
+  packageRels: "http://schemas.openxmlformats.org/package/2006/relationships",
+  officeRels:
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+};
+
+// 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cellXml(value: Cell, ref: string) {
+  if (value === null || value === undefined || value === "") return "";
+
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return element("c", { r: ref }, `<v>${value}</v>`);
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return element(
+    "c",
+    { r: ref, t: "inlineStr" },
+    `<is>${element("t", { "xml:space": "preserve" }, escapeXml(text))}</is>`
+  );
+}
+
+function rowXml(cells: Cell[], rowNumber: number) {
+  const xml = cells
+    .map((value, index) => cellXml(value, `${columnName(index)}${rowNumber}`))
+    .join("");
+  return element("row", { r: rowNumber }, xml);
+}
+
+async function* sheetXml(
+  headers: string[],
+  rows: AsyncIterable<Cell[]>
+): AsyncGenerator<Buffer> {
+  // Keep the header row visible while scrolling
+  const frozenHeader = element(
+    "sheetViews",
+    {},
+    element(
+      "sheetView",
+      { workbookViewId: 0 },
+      element("pane", {
+        ySplit: 1,
+        topLeftCell: "A2",
+        activePane: "bottomLeft",
+        state: "frozen",
+      })
+    )
+  );
+
+  yield Buffer.from(
+    `${XML_HEADER}<worksheet${attributes({ xmlns: NS.main })}>` +
+      `${frozenHeader}<sheetData>${rowXml(headers, 1)}`
+  );
+
+  let rowNumber = 1;
+  for await (const row of rows) {
+    rowNumber++;
+
+    if (rowNumber > XLSX_MAX_ROWS) {
+      throw new Error(`A sheet holds at most ${XLSX_MAX_ROWS} rows`);
+    }
+
+    yield Buffer.from(rowXml(row, rowNumber));
+  }
+
+  yield Buffer.from("</sheetData></worksheet>");
+}
+
+function staticParts(sheetName: string): ZipEntry[] {
+  const part = (name: string, xml: string): ZipEntry => ({
+    name,
+    content: [Buffer.from(XML_HEADER + xml)],
+  });
+
+  const relationship = (type: string, target: string) =>
+    element("Relationship", {
+      Id: "rId1",
+      Type: `${NS.officeRels}/${type}`,
+      Target: target,
+    });
+
+  return [
+    part(
+      "[Content_Types].xml",
+      element(
+        "Types",
+        { xmlns: NS.contentTypes },
+        element("Default", {
+          Extension: "rels",
+          ContentType:
+            "application/vnd.openxmlformats-package.relationships+xml",
+        }) +
+          element("Default", {
+            Extension: "xml",
+            ContentType: "application/xml",
+          }) +
+          element("Override", {
+            PartName: "/xl/workbook.xml",
+            ContentType:
+              "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml",
+          }) +
+          element("Override", {
+            PartName: "/xl/worksheets/sheet1.xml",
+            ContentType:
+              "application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml",
+          })
+      )
+    ),
+    part(
+      "_rels/.rels",
+      element(
+        "Relationships",
+        { xmlns: NS.packageRels },
+        relationship("officeDocument", "xl/workbook.xml")
+      )
+    ),
+    part(
+      "xl/workbook.xml",
+      element(
+        "workbook",
+        { xmlns: NS.main, "xmlns:r": NS.officeRels },
+        element(
+          "sheets",
+          {},
+          element("sheet", {
+            name: sheetName.slice(0, 31),
+            sheetId: 1,
+            "r:id": "rId1",
+          })
+        )
+      )
+    ),
+    part(
+      "xl/_rels/workbook.xml.rels",
+      element(
+        "Relationships",
+        { xmlns: NS.packageRels },
+        relationship("worksheet", "worksheets/sheet1.xml")
+      )
+    ),
+  ];
+}
+
+/**
+ * Workbook bytes for one sheet with a header row, produced as rows arrive
+ *
+ * The stream fails past XLSX_MAX_ROWS rows; check the row count first.
+ */
+export function xlsxChunks(
+  sheetName: string,
+  headers: string[],
+  rows: AsyncIterable<Cell[]>
+): AsyncGenerator<Buffer> {
+  return zipChunks([
+    ...staticParts(sheetName),
+    { name: "xl/worksheets/sheet1.xml", content: sheetXml(headers, rows) },
+  ]);
+}
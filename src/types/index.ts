@@ -14,9 +14,11 @@ import {
   Donation,
   UserRole,
   BloodGroup,
+  BloodComponent,
   RequestStatus,
   DonationStatus,
   Gender,
+  Urgency,
   Prisma,
 } from "@prisma/client";
 
@@ -154,15 +156,25 @@ export type UserLoginInput = {
   password: string;
 };
 
+// Most severe first; the values of the Prisma Urgency enum
+export const URGENCY_LEVELS = [
+  Urgency.CRITICAL,
+  Urgency.URGENT,
+  Urgency.NORMAL,
+] as const;
+
+export { Urgency, BloodComponent };
+
 export type BloodRequestInput = {
   bloodGroup: BloodGroup;
   quantityNeeded: number;
-  urgency: "CRITICAL" | "URGENT" | "NORMAL";
+  urgency: Urgency;
   patientName: string;
   patientAge?: number;
   patientGender?: Gender;
   requiredBy: Date;
   purpose: string;
+  component?: BloodComponent;
   medicalNotes?: string;
   doctorName?: string;
   doctorContact?: string;
@@ -176,17 +188,28 @@ export type DonationScheduleInput = {
   notes?: string;
 };
 
-export type BloodInventoryUpdateInput = {
-  quantity: number;
-  expiryDate?: Date;
-};
+// Stock changes with a reason; quantity itself is never set directly
+// (see src/lib/inventory-adjustments.ts)
+export type InventoryAdjustmentInput = { notes?: string } & (
+  | { reason: "DONATION_RECEIVED"; donationIds: string[] }
+  | { reason: "ISSUED"; quantity: number }
+  | { reason: "EXPIRED" | "DAMAGED"; unitSerials: string[] }
+  | { reason: "TRANSFER"; unitSerials: string[]; toBloodBankId: string }
+  | {
+      reason: "COUNT_CORRECTION";
+      countedQuantity: number;
+      missingSerials?: string[]; // Units on record the count did not find
+    }
+);
 
 // ============================================
 // SEARCH/FILTER TYPES
 // ============================================
 
 export type BloodAvailabilityFilter = {
-  bloodGroup?: BloodGroup;
+  bloodGroup?: BloodGroup[]; // Matches any of the listed values
+  component?: BloodComponent[];
+  bloodBankId?: string;
   city?: string;
   state?: string;
   minQuantity?: number;
@@ -202,14 +225,17 @@ export type DonorSearchFilter = {
 };
 
 export type BloodRequestFilter = {
-  status?: RequestStatus;
-  urgency?: string;
-  bloodGroup?: BloodGroup;
-  fromDate?: Date;
-  toDate?: Date;
+  status?: RequestStatus[]; // Matches any of the listed values
+  urgency?: Urgency[];
+  bloodGroup?: BloodGroup[];
+  fromDate?: Date; // createdAt window
+  toDate?: Date; // Exclusive end
+  requiredFrom?: Date; // requiredBy window
+  requiredTo?: Date; // Exclusive end
   requesterId?: string;
   hospitalId?: string;
   bloodBankId?: string;
+  includeDeleted?: boolean; // Admin only; soft-deleted requests are hidden by default
 };
 
 export type DonationFilter = {
@@ -264,8 +290,12 @@ export type NotificationType =
   | "REQUEST_APPROVED"
   | "REQUEST_FULFILLED"
   | "REQUEST_REJECTED"
+  | "REQUEST_CANCELLED"
+  | "REQUEST_OVERDUE"
+  | "REQUEST_ESCALATED"
   | "INVENTORY_LOW"
   | "INVENTORY_CRITICAL"
+  | "INVENTORY_OVER_CAPACITY"
   | "CAMPAIGN_ANNOUNCEMENT"
   | "ACCOUNT_VERIFIED"
   | "GENERAL";
@@ -329,6 +359,31 @@ export function canReceiveFrom(recipientBloodGroup: BloodGroup): BloodGroup[] {
     .map(([donor]) => donor as BloodGroup);
 }
 
+// Components matched on the donor's plasma antibodies instead of red cells
+export const PLASMA_COMPONENTS: BloodComponent[] = [
+  BloodComponent.PLASMA,
+  BloodComponent.CRYO,
+];
+
+// Can receive this component FROM these blood groups. Plasma is the reverse
+// of red cells: AB plasma suits everyone, O plasma only O recipients. Whole
+// blood carries both, so it must be ABO-identical; Rh follows red cells.
+export function canReceiveComponentFrom(
+  recipientBloodGroup: BloodGroup,
+  component: BloodComponent
+): BloodGroup[] {
+  if (PLASMA_COMPONENTS.includes(component)) {
+    return [...BLOOD_COMPATIBILITY[recipientBloodGroup]];
+  }
+
+  const donors = canReceiveFrom(recipientBloodGroup);
+  const abo = (group: BloodGroup) => group.split("_")[0];
+
+  return component === BloodComponent.WHOLE_BLOOD
+    ? donors.filter((donor) => abo(donor) === abo(recipientBloodGroup))
+    : donors;
+}
+
 // ============================================
 // DATE HELPERS
 // ============================================
@@ -367,6 +422,12 @@ export function isValidBloodGroup(
   return Object.values(BloodGroup).includes(bloodGroup as BloodGroup);
 }
 
+export function isValidBloodComponent(
+  component: string
+): component is BloodComponent {
+  return Object.values(BloodComponent).includes(component as BloodComponent);
+}
+
 export function isValidUserRole(role: string): role is UserRole {
   return Object.values(UserRole).includes(role as UserRole);
 }
@@ -375,6 +436,10 @@ export function isValidRequestStatus(status: string): status is RequestStatus {
   return Object.values(RequestStatus).includes(status as RequestStatus);
 }
 
+export function isValidUrgency(urgency: string): urgency is Urgency {
+  return URGENCY_LEVELS.includes(urgency as Urgency);
+}
+
 export function isValidDonationStatus(
   status: string
 ): status is DonationStatus {